@@ -1,19 +1,123 @@
-import {editor, type IPosition, type IRange} from "monaco-editor/esm/vs/editor/editor.api.js"
+import styleText from './style.css?inline'
+import {editor, type IDisposable, type IEvent, type IPosition, type IRange, type ISelection, type Selection} from "monaco-editor/esm/vs/editor/editor.api.js"
 
 type ICodeEditor = editor.ICodeEditor;
+type IDiffEditor = editor.IDiffEditor;
 
 const OPTION_FontSize = 52
 const OPTION_LineHeight = 67
+const OPTION_ReadOnly = 92
+
+const SCROLL_Immediate = 1
 
 const DEFAULT_SELECTION_SYNC_TIMEOUT = 300
 const DBLCLICK_OPEN_MENU_TIMEOUT = 1000
-const REVEAL_INTERVAL = 50
+const MAX_AUTO_SCROLL_FRAME_TIME = 100
 const OPEN_MENU_TIMEOUT = 100
+const LONG_PRESS_TIMEOUT = 500
+const TRACKPAD_RESUME_TIMEOUT = 600
+// 可见区域比布局视口至少矮这么多时，认为软键盘已弹出
+const KEYBOARD_MIN_HEIGHT = 120
+const MULTI_TAP_TIMEOUT = 300
+const TAP_MOVE_TOLERANCE = 10
+const HAPTIC_DURATION = 5
+
+const MORE_ICON = `
+<svg
+    xmlns="http://www.w3.org/2000/svg"
+    class="icon"
+    viewBox="0 0 24 24"
+    stroke-linecap="round"
+    stroke-linejoin="round"
+    style="fill: none;"
+>
+    <path d="M5 12m-1 0a1 1 0 1 0 2 0a1 1 0 1 0 -2 0" />
+    <path d="M12 12m-1 0a1 1 0 1 0 2 0a1 1 0 1 0 -2 0" />
+    <path d="M19 12m-1 0a1 1 0 1 0 2 0a1 1 0 1 0 -2 0" />
+</svg>`
+
+const toIconHTML = (paths: string) => `
+<svg
+    xmlns="http://www.w3.org/2000/svg"
+    class="icon"
+    viewBox="0 0 24 24"
+    stroke-linecap="round"
+    stroke-linejoin="round"
+    style="fill: none;"
+>
+    ${paths}
+</svg>`
+
+const BACK_ICON = `
+<svg
+    xmlns="http://www.w3.org/2000/svg"
+    class="icon"
+    viewBox="0 0 24 24"
+    stroke-linecap="round"
+    stroke-linejoin="round"
+    style="fill: none;"
+>
+    <path d="M15 6l-6 6l6 6" />
+</svg>`
+
+const DEFAULT_AUTO_SCROLL_OPTIONS: Required<AutoScrollOptions> = {
+    edgeSize: 40,
+    maxSpeed: 2000,
+}
+
+const DEFAULT_PINCH_ZOOM_OPTIONS: ResolvedPinchZoomOptions = {
+    minFontSize: 8,
+    maxFontSize: 32,
+    storageKey: undefined,
+}
+
+const DEFAULT_TRACKPAD_OPTIONS: ResolvedTrackpadOptions = {
+    twoFingerDrag: true,
+    longPressArea: undefined,
+    sensitivity: 1,
+    acceleration: 1,
+}
+
+const DEFAULT_TEXT_DRAG_OPTIONS: Required<TextDragOptions> = {
+    copy: false,
+}
+
+const DEFAULT_MAGNIFIER_OPTIONS: Required<MagnifierOptions> = {
+    width: 120,
+    height: 48,
+    zoom: 1.5,
+    offset: 32,
+}
+
+// MouseTargetType
+const TARGET_ContentText = 6
+const TARGET_ContentEmpty = 7
+
+// Monaco Gesture EventType
+const GESTURE_Tap = '-monaco-gesturetap'
+const GESTURE_Contextmenu = '-monaco-gesturecontextmenu'
+
+export type SelectorMenuToolContext = {
+    editor: ICodeEditor,
+    selections: Selection[],
+    selectionIsEmpty: boolean,
+    readOnly: boolean,
+    clipboardAvailable: boolean,
+}
 
 export type SelectorMenuTool = {
     name: string,
     innerHTML: string | Element | (() => string | Element),
-    action: (() => Promise<void>) | (() => void)
+    action: (() => Promise<void>) | (() => void),
+    // 每次打开菜单时重新计算，未提供时视为 true
+    visible?: (context: SelectorMenuToolContext) => boolean,
+    enabled?: (context: SelectorMenuToolContext) => boolean,
+    // 无障碍名称以及可见的文字标签，未提供时使用 name
+    label?: string,
+    // 相邻工具的 group 不同时，在两者之间显示分隔线
+    group?: string,
+    // 点击时在 action 之后打开包含 children 的子菜单
+    children?: SelectorMenuTool[],
 }
 
 export enum DefaultToolName {
@@ -26,571 +130,2351 @@ export enum DefaultToolName {
     Close = 'close',
 }
 
+// 基于 Monaco 内置 action 的工具，需要在 tools 中显式加入
+export enum CodeToolName {
+    ExpandSelection = 'expandSelection',
+    ShrinkSelection = 'shrinkSelection',
+    ToggleLineComment = 'toggleLineComment',
+    FormatSelection = 'formatSelection',
+    Rename = 'rename',
+    GoToDefinition = 'goToDefinition',
+    FindReferences = 'findReferences',
+    QuickFix = 'quickFix',
+    FindSelection = 'findSelection',
+}
+
+// 内置 selection classifier 提供的工具
+export enum ContentToolName {
+    OpenLink = 'openLink',
+    SendEmail = 'sendEmail',
+    Share = 'share',
+    PreviewColor = 'previewColor',
+    Increment = 'increment',
+    Decrement = 'decrement',
+}
+
+// 软键盘辅助栏中的按键
+export enum AccessoryKeyName {
+    Tab = 'tab',
+    Escape = 'escape',
+    ArrowLeft = 'arrowLeft',
+    ArrowRight = 'arrowRight',
+    ArrowUp = 'arrowUp',
+    ArrowDown = 'arrowDown',
+}
+
+// 软键盘辅助栏中默认插入的括号与符号
+const DEFAULT_ACCESSORY_SYMBOLS = ['{', '}', '(', ')', '[', ']', '<', '>', '=', ';', ':', '"', "'", '`', '/', '\\', '|', '&', '!', '_']
+
+export type SelectorMenuMessages = Record<DefaultToolName | CodeToolName | ContentToolName | AccessoryKeyName, string> & {
+    menu: string,
+    accessoryBar: string,
+    more: string,
+    back: string,
+    // {name} 会被替换为工具的标签
+    toolActionFailed: string,
+}
+
+const BUILTIN_MESSAGES: Record<string, SelectorMenuMessages> = {
+    'en': {
+        [DefaultToolName.Copy]: 'Copy',
+        [DefaultToolName.Cut]: 'Cut',
+        [DefaultToolName.Paste]: 'Paste',
+        [DefaultToolName.SelectAll]: 'Select all',
+        [DefaultToolName.Undo]: 'Undo',
+        [DefaultToolName.Redo]: 'Redo',
+        [DefaultToolName.Close]: 'Close',
+        [CodeToolName.ExpandSelection]: 'Expand selection',
+        [CodeToolName.ShrinkSelection]: 'Shrink selection',
+        [CodeToolName.ToggleLineComment]: 'Toggle line comment',
+        [CodeToolName.FormatSelection]: 'Format selection',
+        [CodeToolName.Rename]: 'Rename symbol',
+        [CodeToolName.GoToDefinition]: 'Go to definition',
+        [CodeToolName.FindReferences]: 'Find references',
+        [CodeToolName.QuickFix]: 'Quick fix',
+        [CodeToolName.FindSelection]: 'Find selection',
+        [ContentToolName.OpenLink]: 'Open link',
+        [ContentToolName.SendEmail]: 'Send email',
+        [ContentToolName.Share]: 'Share',
+        [ContentToolName.PreviewColor]: 'Preview color',
+        [ContentToolName.Increment]: 'Increment',
+        [ContentToolName.Decrement]: 'Decrement',
+        [AccessoryKeyName.Tab]: 'Tab',
+        [AccessoryKeyName.Escape]: 'Escape',
+        [AccessoryKeyName.ArrowLeft]: 'Left arrow',
+        [AccessoryKeyName.ArrowRight]: 'Right arrow',
+        [AccessoryKeyName.ArrowUp]: 'Up arrow',
+        [AccessoryKeyName.ArrowDown]: 'Down arrow',
+        menu: 'Selection actions',
+        accessoryBar: 'Keyboard accessories',
+        more: 'More',
+        back: 'Back',
+        toolActionFailed: '{name} failed',
+    },
+    'zh': {
+        [DefaultToolName.Copy]: '复制',
+        [DefaultToolName.Cut]: '剪切',
+        [DefaultToolName.Paste]: '粘贴',
+        [DefaultToolName.SelectAll]: '全选',
+        [DefaultToolName.Undo]: '撤销',
+        [DefaultToolName.Redo]: '重做',
+        [DefaultToolName.Close]: '关闭',
+        [CodeToolName.ExpandSelection]: '扩大选区',
+        [CodeToolName.ShrinkSelection]: '缩小选区',
+        [CodeToolName.ToggleLineComment]: '切换行注释',
+        [CodeToolName.FormatSelection]: '格式化选区',
+        [CodeToolName.Rename]: '重命名符号',
+        [CodeToolName.GoToDefinition]: '转到定义',
+        [CodeToolName.FindReferences]: '查找引用',
+        [CodeToolName.QuickFix]: '快速修复',
+        [CodeToolName.FindSelection]: '查找选中内容',
+        [ContentToolName.OpenLink]: '打开链接',
+        [ContentToolName.SendEmail]: '发送邮件',
+        [ContentToolName.Share]: '分享',
+        [ContentToolName.PreviewColor]: '预览颜色',
+        [ContentToolName.Increment]: '增加',
+        [ContentToolName.Decrement]: '减少',
+        [AccessoryKeyName.Tab]: 'Tab 键',
+        [AccessoryKeyName.Escape]: 'Esc 键',
+        [AccessoryKeyName.ArrowLeft]: '左方向键',
+        [AccessoryKeyName.ArrowRight]: '右方向键',
+        [AccessoryKeyName.ArrowUp]: '上方向键',
+        [AccessoryKeyName.ArrowDown]: '下方向键',
+        menu: '选区操作',
+        accessoryBar: '键盘辅助栏',
+        more: '更多',
+        back: '返回',
+        toolActionFailed: '{name}失败',
+    },
+}
+
+// 先按完整的 locale 匹配，再按语言部分匹配，都没有时使用英文
+const resolveSelectorMenuMessages = (
+    locale: string | undefined,
+    messages: Partial<SelectorMenuMessages> | undefined
+): SelectorMenuMessages => {
+    const language = locale ?? (typeof navigator !== 'undefined' ? navigator.language : 'en')
+    const builtinMessages =
+        BUILTIN_MESSAGES[language] ??
+        BUILTIN_MESSAGES[language.split('-')[0].toLowerCase()] ??
+        BUILTIN_MESSAGES['en']
+    return {...builtinMessages, ...messages}
+}
+
+const getToolLabel = (menuTool: SelectorMenuTool) => menuTool.label ?? menuTool.name
+
 export type SelectorMenuToolConfig =
     (options: {
         editor: ICodeEditor,
         selectorMenu: HTMLDivElement,
         defaultTools: Map<DefaultToolName, SelectorMenuTool>,
+        codeTools: Map<CodeToolName, SelectorMenuTool>,
         openMenu: () => void,
         closeMenu: () => void,
     }) => Iterable<SelectorMenuTool> | undefined
 
+export type AccessoryBarToolConfig =
+    (options: {
+        editor: ICodeEditor,
+        accessoryBar: HTMLDivElement,
+        defaultTools: Map<AccessoryKeyName, SelectorMenuTool>,
+        // 以符号为键，默认包含常用的括号与符号
+        symbolTools: Map<string, SelectorMenuTool>,
+        // 创建一个像键盘输入一样插入 text 的工具
+        createInsertTool: (text: string) => SelectorMenuTool,
+    }) => Iterable<SelectorMenuTool> | undefined
 
-type Selector = HTMLDivElement & {
-    bottomCursor: HTMLDivElement,
-    textCursor: HTMLDivElement,
+export type AccessoryBarOptions = {
+    tools?: AccessoryBarToolConfig,
 }
 
-const updateSelectionStart = (selection: IRange, position: IPosition): IRange => {
-    return {
-        startLineNumber: position.lineNumber,
-        startColumn: position.column,
-        endLineNumber: selection.endLineNumber,
-        endColumn: selection.endColumn
-    }
+export type SelectionClassifierContext = {
+    editor: ICodeEditor,
+    // 主选区中的文本，未经 trim
+    text: string,
+    languageId: string,
+    selection: Selection,
+    messages: SelectorMenuMessages,
+    clipboard: ClipboardProvider,
+    openMenu: () => void,
+    closeMenu: () => void,
 }
 
-const updateSelectionEnd = (selection: IRange, position: IPosition): IRange => {
-    return {
-        startLineNumber: selection.startLineNumber,
-        startColumn: selection.startColumn,
-        endLineNumber: position.lineNumber,
-        endColumn: position.column
-    }
+export type SelectionClassifier = {
+    id: string,
+    // 选中文本不属于该类时返回 undefined 或空数组
+    classify: (context: SelectionClassifierContext) => SelectorMenuTool[] | undefined,
 }
 
-// 当触点移动到上下边缘时，尝试垂直滚动
-const scrollTopExtremityFit = (editor: ICodeEditor, touch: Touch, lineHeight: number) => {
-    const scrollTop = editor.getScrollTop()
+export type MagnifierOptions = {
+    width?: number,
+    height?: number,
+    zoom?: number,
+    offset?: number,
+}
 
-    const scrollHeight = editor.getScrollHeight()
-    const viewHeight = editor.getLayoutInfo().height
-    const maxScrollTop = Math.max(0, scrollHeight - viewHeight)
+export type AutoScrollOptions = {
+    edgeSize?: number,
+    maxSpeed?: number,
+}
 
-    const canScrollUp = scrollTop > 0
-    const canScrollDown = scrollTop < maxScrollTop
+export type PinchZoomOptions = {
+    minFontSize?: number,
+    maxFontSize?: number,
+    // 设置后将缩放结果保存在 localStorage 中，下次创建时恢复
+    storageKey?: string,
+}
 
-    const previousTarget = editor.getTargetAtClientPoint(touch.clientX, touch.clientY - lineHeight)
-    const nextTarget = editor.getTargetAtClientPoint(touch.clientX, touch.clientY + lineHeight)
-    if (previousTarget === null && nextTarget !== null && canScrollUp) {
-        // 触发向上滚动
-        const newScrollTop = Math.max(0, scrollTop - lineHeight)
-        editor.setScrollTop(newScrollTop, 0)
-    } else if (previousTarget !== null && nextTarget === null && canScrollDown) {
-        // 触发向下滚动
-        const newScrollTop = Math.min(maxScrollTop, scrollTop + lineHeight)
-        editor.setScrollTop(newScrollTop, 0)
-    }
+export type TrackpadOptions = {
+    // 双指拖动进入触控板模式
+    twoFingerDrag?: boolean,
+    // 长按该区域进入触控板模式。可以是编辑器之外的元素，例如软键盘上方的工具栏，
+    // 也可以是判断编辑器上的触点是否位于区域内的函数
+    longPressArea?: HTMLElement | ((clientX: number, clientY: number) => boolean),
+    // 手指移动距离到光标移动距离的基础倍率
+    sensitivity?: number,
+    // 手指移动速度（px/ms）每增加 1 时倍率的增量
+    acceleration?: number,
 }
 
-// 当触点移动到左右边缘时，尝试水平滚动
-const scrollLeftExtremityFit = (editor: ICodeEditor, touch: Touch, letterWidth: number) => {
-    const scrollLeft = editor.getScrollLeft()
+type ResolvedTrackpadOptions = Required<Omit<TrackpadOptions, 'longPressArea'>> & Pick<TrackpadOptions, 'longPressArea'>
 
-    const scrollWidth = editor.getScrollWidth()
-    const viewWidth = editor.getLayoutInfo().width
-    const maxScrollLeft = Math.max(0, scrollWidth - viewWidth)
+export type TextDragOptions = {
+    // 为 true 时复制选中文本到落点，保留原有文本
+    copy?: boolean,
+}
 
-    const canScrollLeft = scrollLeft > 0
-    const canScrollRight = scrollLeft < maxScrollLeft
+type ResolvedPinchZoomOptions = Required<Omit<PinchZoomOptions, 'storageKey'>> & Pick<PinchZoomOptions, 'storageKey'>
 
-    const previousTarget = editor.getTargetAtClientPoint(touch.clientX - letterWidth, touch.clientY)
-    const nextTarget = editor.getTargetAtClientPoint(touch.clientX + letterWidth, touch.clientY)
-    if (previousTarget === null && nextTarget !== null && canScrollLeft) {
-        // 触发向左滚动
-        const newScrollLeft = Math.max(0, scrollLeft - letterWidth)
-        editor.setScrollLeft(newScrollLeft, 0)
-    } else if (previousTarget !== null && nextTarget === null && canScrollRight) {
-        // 触发向右滚动
-        const newScrollLeft = Math.min(maxScrollLeft, scrollLeft + letterWidth)
-        editor.setScrollLeft(newScrollLeft, 0)
-    }
+export type ZoomChangeEvent = {
+    fontSize: number,
+    lineHeight: number,
 }
 
-export const editorTouchSelectionHelp = (
-    editor: ICodeEditor,
-    options?: {
-        tools?: SelectorMenuToolConfig,
-        selectionSyncTimeout?: number | undefined,
-        toolActionErrorHandler?: (name: string, error: Error | unknown) => Promise<void> | void,
-    }
-) => {
-    const {
-        tools,
-        selectionSyncTimeout = DEFAULT_SELECTION_SYNC_TIMEOUT,
-        toolActionErrorHandler = (name: string, error: Error | unknown) => {
-            console.error(`tool ${name} cause error: `, error)
-        },
-    } = options ?? {}
+export type InputMode = 'touch' | 'pointer' | 'auto'
 
-    if (!editor) {
-        throw new Error("editor not existed")
-    }
+export type ToolLabelMode = 'none' | 'text' | 'tooltip'
 
-    const element = editor.getDomNode()
-    if (!element || !(element instanceof HTMLElement)) {
-        throw new Error("editor container element not existed or it is not a HTMLElement")
-    }
+// 菜单挂载的位置，可以是 Shadow DOM 的 shadowRoot、iframe 或对话框中的元素
+export type MenuContainer = HTMLElement | ShadowRoot
 
+export type ClipboardProvider = {
+    readText: () => Promise<string>,
+    writeText: (text: string) => Promise<void>,
+    // 未提供时视为可用
+    available?: () => boolean,
+}
 
-    const editorOverlayGuard = element.querySelector('.overflow-guard')
-    if (!editorOverlayGuard || !(editorOverlayGuard instanceof HTMLElement)) {
-        throw new Error("no overlay guard or it is not a HTMLElement")
-    }
+export type SelectionGranularity = 'character' | 'word' | 'subword' | 'line'
 
-    const margin = element.querySelector('.monaco-editor .margin')
-    let leftMargin = 0
-    if (margin && margin instanceof HTMLElement) {
-        leftMargin = margin.offsetWidth
-    }
+export type EditorTouchSelectionOptions = {
+    tools?: SelectorMenuToolConfig,
+    selectionSyncTimeout?: number | undefined,
+    toolActionErrorHandler?: (name: string, error: Error | unknown) => Promise<void> | void,
+    magnifier?: boolean | MagnifierOptions,
+    autoScroll?: boolean | AutoScrollOptions,
+    handleTouchSize?: number,
+    pinchZoom?: boolean | PinchZoomOptions,
+    textDrag?: boolean | TextDragOptions,
+    trackpad?: boolean | TrackpadOptions,
+    accessoryBar?: boolean | AccessoryBarOptions,
+    inputMode?: InputMode,
+    granularity?: SelectionGranularity,
+    haptics?: boolean,
+    clipboard?: ClipboardProvider,
+    locale?: string,
+    messages?: Partial<SelectorMenuMessages>,
+    toolLabels?: ToolLabelMode,
+    themeColors?: boolean,
+    injectStyles?: boolean,
+    menuContainer?: MenuContainer | ((editor: ICodeEditor) => MenuContainer),
+    selectionClassifiers?: boolean,
+}
 
-    let selectionsShow = false
-    let selections: HTMLDivElement | null = null
-    let leftSelector: Selector | null = null
-    let rightSelector: Selector | null = null
-    const showSelections = () => {
-        if (!selections) return
-        if (selectionsShow) return
-        selectionsShow = true
-        selections.classList.add('show')
-    }
-    const hideSelections = () => {
-        if (!selections) return
-        if (!selectionsShow) return
-        selectionsShow = false
-        selections.classList.remove('show')
-    }
+// start 为未拖动时位于选区开头的 selector，end 为位于选区末尾的 selector
+export type SelectionHandle = 'start' | 'end'
 
-    let selectorMenuShow = false
-    let selectorMenu: HTMLDivElement | null = null
-    const showSelectorMenu = () => {
-        if (!selectorMenu) return
-        if (selectorMenuShow) return
-        selectorMenuShow = true
-        selectorMenu.classList.add('show')
-    }
-    const hideSelectorMenu = () => {
-        if (!selectorMenu) return
-        if (!selectorMenuShow) return
-        selectorMenuShow = false
-        selectorMenu.classList.remove('show')
-    }
+export type HandleDragEvent = {
+    handle: SelectionHandle,
+    // 被拖动的选区在 editor.getSelections() 中的下标
+    selectionIndex: number,
+    selection: Selection,
+}
 
-    let resizeOb: ResizeObserver | null = new ResizeObserver(() => {
-        hideSelections()
-        hideSelectorMenu()
+export type BeforeToolActionEvent = {
+    tool: SelectorMenuTool,
+    // 调用后不再执行该工具的 action
+    cancel: () => void,
+}
 
-        const selection = editor.getSelection()
-        if (selection) debounceSyncSelectionTransform(selection)
-    })
-    resizeOb.observe(element)
+export type ToolActionCompleteEvent = {
+    tool: SelectorMenuTool,
+    error?: Error | unknown,
+}
 
-    editor.onDidDispose(() => {
-        resizeOb?.disconnect()
-        resizeOb = null
+export type EditorTouchSelectionController = {
+    dispose: () => void,
+    openMenu: () => void,
+    closeMenu: () => void,
+    showHandles: () => void,
+    hideHandles: () => void,
+    updateOptions: (options: EditorTouchSelectionOptions) => void,
+    onHandleDragStart: IEvent<HandleDragEvent>,
+    onHandleDragMove: IEvent<HandleDragEvent>,
+    onHandleDragEnd: IEvent<HandleDragEvent>,
+    onMenuOpen: IEvent<void>,
+    onMenuClose: IEvent<void>,
+    onBeforeToolAction: IEvent<BeforeToolActionEvent>,
+    onToolActionComplete: IEvent<ToolActionCompleteEvent>,
+    onZoomChange: IEvent<ZoomChangeEvent>,
+}
 
-        selections?.remove()
-        leftSelector?.remove()
-        rightSelector?.remove()
-        selectorMenu?.remove()
+export type DiffEditorTouchSelectionController = {
+    // inline 模式下 original 只显示行号，此时为 null
+    original: EditorTouchSelectionController | null,
+    modified: EditorTouchSelectionController,
+    dispose: () => void,
+    // 在获得焦点的一侧打开菜单，默认为 modified
+    openMenu: () => void,
+    closeMenu: () => void,
+    updateOptions: (options: EditorTouchSelectionOptions) => void,
+    // 转发两侧的事件。original 会随 inline 模式切换重新创建，在这里订阅不会丢失
+    onHandleDragStart: IEvent<HandleDragEvent>,
+    onHandleDragMove: IEvent<HandleDragEvent>,
+    onHandleDragEnd: IEvent<HandleDragEvent>,
+    onMenuOpen: IEvent<void>,
+    onMenuClose: IEvent<void>,
+    onBeforeToolAction: IEvent<BeforeToolActionEvent>,
+    onToolActionComplete: IEvent<ToolActionCompleteEvent>,
+    onZoomChange: IEvent<ZoomChangeEvent>,
+}
 
-        selections = null
-        leftSelector = null
-        rightSelector = null
-        selectorMenu = null
-    })
+type EventEmitter<T> = IDisposable & {
+    event: IEvent<T>,
+    fire: (e: T) => void,
+}
 
-    const selectAll = () => {
-        editor.focus()
-        const model = editor.getModel()
-        if (model) {
-            const fullRange = model.getFullModelRange()
-            editor.setSelection(fullRange)
-        }
+// 与 Monaco 的 Emitter 用法一致，event 用于订阅，返回的 IDisposable 用于取消订阅
+const createEventEmitter = <T>(): EventEmitter<T> => {
+    const listeners = new Set<(e: T) => unknown>()
+    return {
+        event: (listener, thisArg) => {
+            const boundListener = (e: T) => listener.call(thisArg, e)
+            listeners.add(boundListener)
+            return {
+                dispose: () => {
+                    listeners.delete(boundListener)
+                }
+            }
+        },
+        fire: (e) => {
+            for (const listener of [...listeners]) {
+                // 与 Monaco 的 onUnexpectedError 一致，异步抛出监听器的异常，不影响其余监听器与触发方
+                try {
+                    listener(e)
+                } catch (error) {
+                    setTimeout(() => {
+                        throw error
+                    }, 0)
+                }
+            }
+        },
+        dispose: () => {
+            listeners.clear()
+        },
     }
+}
 
-    const copy = async (): Promise<boolean> => {
-        try {
-            const selection = editor.getSelection()
-            if (!selection) return false
-            const selectedText = editor.getModel()?.getValueInRange(selection)
-            if (!selectedText) return false
-            await navigator.clipboard.writeText(selectedText)
-            return true
-        } catch (e) {
-            await toolActionErrorHandler(`copy fail: ${e}`, e)
-            return false
-        }
-    }
+type Selector = HTMLDivElement & {
+    bottomCursor: HTMLDivElement,
+    textCursor: HTMLDivElement,
+}
 
-    const cut = async (): Promise<boolean> => {
-        try {
-            const selection = editor.getSelection()
-            if (!selection) return false
-            const selectedText = editor.getModel()?.getValueInRange(selection)
-            if (!selectedText) return false
-            await navigator.clipboard.writeText(selectedText)
-            editor.executeEdits('cut', [{range: selection, text: ''}])
-            return true
-        } catch (e) {
-            await toolActionErrorHandler('cut', e)
-            return false
-        }
-    }
+type ClientPoint = {
+    clientX: number,
+    clientY: number,
+}
 
-    const paste = async (): Promise<boolean> => {
-        try {
-            const selection = editor.getSelection()
-            if (!selection) return false
+type PressEvent = TouchEvent | PointerEvent
 
-            const text = await navigator.clipboard.readText()
-            if (text.length === 0) return false
+type TrackpadSession = {
+    options: ResolvedTrackpadOptions,
+    // 光标跟随的虚拟触点，由手指的相对移动驱动
+    point: ClientPoint,
+    lastTouch: ClientPoint,
+    lastTime: number,
+    // 扩展选区时的 anchor，为 null 时只移动光标
+    anchor: IPosition | null,
+    autoScrollDisposable: IDisposable,
+}
 
-            editor.executeEdits('paste', [{range: selection, text: text}])
-            return true
-        } catch (e) {
-            await toolActionErrorHandler('paste', e)
-            return false
-        }
-    }
+type PressHandlers = {
+    move?: (point: ClientPoint, event: PressEvent) => void,
+    end?: (point: ClientPoint, event: PressEvent) => void,
+    // 按压结束或被中断时调用
+    cleanup?: () => void,
+}
 
-    const undo = () => {
-        editor.trigger('keyboard', 'undo', null)
-    }
+type EdgeDirection = 'above' | 'below' | 'left' | 'right'
 
-    const redo = () => {
-        editor.trigger('keyboard', 'redo', null)
-    }
+type SelectionEnd = {
+    index: number,
+    position: IPosition,
+    isStart: boolean,
+}
 
-    const sameSelectorBottomTransform = "translateX(-50%) translateY(25%) rotate(45deg)"
-    const leftSelectorBottomTransform = "translateX(-100%) rotate(90deg)"
-    const rightSelectorBottomTransform = ""
+type SelectorPair = IDisposable & {
+    left: Selector,
+    right: Selector,
+    // 拖动越过另一端时为 true，此时 left 显示在选区末尾，right 显示在选区开头
+    flipped: boolean,
+    // 位于选区 active 一端（即光标所在一端）的 selector
+    activeSelector: Selector,
+}
 
-    const syncSelectionTransform = (selection: IRange) => {
-        if (!leftSelector || !rightSelector) return
+const compareRangesByStart = (a: IRange, b: IRange): number => {
+    if (a.startLineNumber !== b.startLineNumber) return a.startLineNumber - b.startLineNumber
+    return a.startColumn - b.startColumn
+}
 
-        const startPosition: IPosition = {
-            lineNumber: selection.startLineNumber,
-            column: selection.startColumn
-        }
-        const endPosition: IPosition = {
-            lineNumber: selection.endLineNumber,
-            column: selection.endColumn
-        }
+const positionToRange = (position: IPosition): IRange => {
+    return {
+        startLineNumber: position.lineNumber,
+        startColumn: position.column,
+        endLineNumber: position.lineNumber,
+        endColumn: position.column
+    }
+}
 
-        // Get the position of the start and end of the selection in client coordinates
-        const scrollLeft = editor.getScrollLeft()
-        const startCoords = editor.getScrolledVisiblePosition(startPosition)
-        const endCoords = editor.getScrolledVisiblePosition(endPosition)
+const getDistance = (a: ClientPoint, b: ClientPoint): number => {
+    return Math.sqrt(Math.pow(a.clientX - b.clientX, 2) + Math.pow(a.clientY - b.clientY, 2))
+}
 
-        if (!startCoords || !endCoords) return
+const comparePositions = (a: IPosition, b: IPosition): number => {
+    if (a.lineNumber !== b.lineNumber) return a.lineNumber - b.lineNumber
+    return a.column - b.column
+}
 
-        // Get the top position of the start and end lines
-        const startTop = editor.getTopForPosition(startPosition.lineNumber, startPosition.column)
-        const endTop = editor.getTopForPosition(endPosition.lineNumber, endPosition.column)
+// anchor 为不动的一端，active 为光标所在的一端，与 Monaco Selection 的方向一致
+const createSelection = (anchor: IPosition, active: IPosition): ISelection => {
+    return {
+        selectionStartLineNumber: anchor.lineNumber,
+        selectionStartColumn: anchor.column,
+        positionLineNumber: active.lineNumber,
+        positionColumn: active.column
+    }
+}
 
-        // Calculate positions for the selectors based on line number top positions
-        const leftSelectorX = startCoords.left + scrollLeft - leftMargin
-        const leftSelectorY = startTop
-        const rightSelectorX = endCoords.left + scrollLeft - leftMargin
-        const rightSelectorY = endTop
+// 以 anchor 为不动的一端，将选区扩展到 position
+const extendRange = (anchor: IRange, position: IPosition): ISelection => {
+    const anchorStart: IPosition = {lineNumber: anchor.startLineNumber, column: anchor.startColumn}
+    const anchorEnd: IPosition = {lineNumber: anchor.endLineNumber, column: anchor.endColumn}
+    if (comparePositions(position, anchorStart) < 0) {
+        return createSelection(anchorEnd, position)
+    }
+    if (comparePositions(position, anchorEnd) > 0) {
+        return createSelection(anchorStart, position)
+    }
+    return rangeToSelection(anchor)
+}
 
-        leftSelector.style.opacity = "1"
-        rightSelector.style.opacity = "1"
+const rangeToSelection = (range: IRange): ISelection => {
+    return {
+        selectionStartLineNumber: range.startLineNumber,
+        selectionStartColumn: range.startColumn,
+        positionLineNumber: range.endLineNumber,
+        positionColumn: range.endColumn
+    }
+}
 
-        leftSelector.style.transform = `translateX(${leftSelectorX}px) translateY(${leftSelectorY}px)`
-        rightSelector.style.transform = `translateX(${rightSelectorX}px) translateY(${rightSelectorY}px)`
+// 单词内部的分词位置（偏移量），按 camelCase、snake_case、kebab-case 与数字切分
+const getSubwordBoundaries = (word: string): number[] => {
+    const boundaries = [0]
+    const isUpper = (char: string) => char !== char.toLowerCase() && char === char.toUpperCase()
+    const isLower = (char: string) => char !== char.toUpperCase() && char === char.toLowerCase()
+    const isDigit = (char: string) => char >= '0' && char <= '9'
+    const isSeparator = (char: string) => char === '_' || char === '-'
 
-        if (leftSelectorX === rightSelectorX && leftSelectorY === rightSelectorY) {
-            leftSelector.bottomCursor.style.transform = sameSelectorBottomTransform
-            rightSelector.bottomCursor.style.transform = sameSelectorBottomTransform
-        } else {
-            leftSelector.bottomCursor.style.transform = leftSelectorBottomTransform
-            rightSelector.bottomCursor.style.transform = rightSelectorBottomTransform
+    for (let i = 1; i < word.length; i++) {
+        const prev = word[i - 1]
+        const current = word[i]
+        const next = word[i + 1] ?? ''
+        if (
+            isSeparator(prev) !== isSeparator(current) ||
+            (!isUpper(prev) && isUpper(current)) ||
+            (isUpper(prev) && isUpper(current) && isLower(next)) ||
+            isDigit(prev) !== isDigit(current)
+        ) {
+            boundaries.push(i)
         }
     }
 
-    let lastSyncTime = 0
-    let syncSelectorTimer: number | undefined = undefined
+    boundaries.push(word.length)
+    return boundaries
+}
 
-    const debounceSyncSelectionTransform = (selection: IRange) => {
-        clearTimeout(syncSelectorTimer)
-        if (!leftSelector || !rightSelector) return
-        const currentSyncTime = Date.now()
-        if (currentSyncTime - lastSyncTime < selectionSyncTimeout) {
-            lastSyncTime = currentSyncTime
-            leftSelector.style.opacity = "0"
-            rightSelector.style.opacity = "0"
-            syncSelectorTimer = window.setTimeout(() => {
-                syncSelectionTransform(selection)
-            }, selectionSyncTimeout)
-            return
-        } else {
-            lastSyncTime = currentSyncTime
-            syncSelectionTransform(selection)
+// 按粒度将位置吸附到边界，forward 为 true 时向后吸附，否则向前吸附
+const snapPosition = (
+    model: editor.ITextModel,
+    position: IPosition,
+    granularity: SelectionGranularity,
+    forward: boolean
+): IPosition => {
+    if (granularity === 'line') {
+        return {
+            lineNumber: position.lineNumber,
+            column: forward ? model.getLineMaxColumn(position.lineNumber) : 1
         }
     }
 
+    if (granularity === 'word' || granularity === 'subword') {
+        const word = model.getWordAtPosition(position)
+        if (!word) return position
 
-    const toSelector = (element: HTMLDivElement): Selector => {
-        element.classList.add('selector')
+        if (granularity === 'word') {
+            return {
+                lineNumber: position.lineNumber,
+                column: forward ? word.endColumn : word.startColumn
+            }
+        }
 
-        const textCursor = document.createElement('div')
-        textCursor.classList.add('text-cursor')
-        element.appendChild(textCursor)
+        const offset = position.column - word.startColumn
+        const boundaries = getSubwordBoundaries(word.word)
+        const boundary = forward ?
+            boundaries.find(it => it >= offset) :
+            [...boundaries].reverse().find(it => it <= offset)
+        if (boundary === undefined) return position
+        return {
+            lineNumber: position.lineNumber,
+            column: word.startColumn + boundary
+        }
+    }
 
-        const bottomCursor = document.createElement('div')
-        bottomCursor.classList.add('bottom-cursor')
-        element.appendChild(bottomCursor)
+    return position
+}
 
-        const selector = element as Selector
-        selector.textCursor = textCursor
-        selector.bottomCursor = bottomCursor
+const resolveAutoScrollOptions = (
+    autoScroll: boolean | AutoScrollOptions | undefined
+): Required<AutoScrollOptions> | null => {
+    if (!autoScroll) return null
+    if (autoScroll === true) return DEFAULT_AUTO_SCROLL_OPTIONS
+    return {...DEFAULT_AUTO_SCROLL_OPTIONS, ...autoScroll}
+}
 
-        return selector
+const resolvePinchZoomOptions = (
+    pinchZoom: boolean | PinchZoomOptions | undefined
+): ResolvedPinchZoomOptions | null => {
+    if (!pinchZoom) return null
+    if (pinchZoom === true) return DEFAULT_PINCH_ZOOM_OPTIONS
+    return {...DEFAULT_PINCH_ZOOM_OPTIONS, ...pinchZoom}
+}
+
+const resolveTrackpadOptions = (
+    trackpad: boolean | TrackpadOptions | undefined
+): ResolvedTrackpadOptions | null => {
+    if (!trackpad) return null
+    if (trackpad === true) return DEFAULT_TRACKPAD_OPTIONS
+    return {...DEFAULT_TRACKPAD_OPTIONS, ...trackpad}
+}
+
+const resolveTextDragOptions = (
+    textDrag: boolean | TextDragOptions | undefined
+): Required<TextDragOptions> | null => {
+    if (!textDrag) return null
+    if (textDrag === true) return DEFAULT_TEXT_DRAG_OPTIONS
+    return {...DEFAULT_TEXT_DRAG_OPTIONS, ...textDrag}
+}
+
+const resolveMagnifierOptions = (
+    magnifier: boolean | MagnifierOptions | undefined
+): Required<MagnifierOptions> | null => {
+    if (!magnifier) return null
+    if (magnifier === true) return DEFAULT_MAGNIFIER_OPTIONS
+    return {...DEFAULT_MAGNIFIER_OPTIONS, ...magnifier}
+}
+
+// 指针模式下只处理 pen 与 touch，鼠标交由 Monaco 自身处理
+const isPressEvent = (event: Event): boolean => {
+    if (!('pointerType' in event)) return true
+    return event.pointerType === 'touch' || event.pointerType === 'pen'
+}
+
+const isMultiPress = (event: PressEvent): boolean => {
+    if ('touches' in event) return event.touches.length !== 1
+    return !event.isPrimary
+}
+
+const addDisposableListener = <E extends Event>(
+    target: EventTarget,
+    type: string,
+    listener: (event: E) => void,
+    options?: AddEventListenerOptions
+): IDisposable => {
+    target.addEventListener(type, listener as EventListener, options)
+    return {
+        dispose: () => target.removeEventListener(type, listener as EventListener, options)
     }
+}
 
-    const initSelections = () => {
-        selections = document.createElement('div')
-        selections.classList.add('monaco-editor-touch-selections')
+// 触点进入边缘区域后开始滚动，速度随进入的深度线性增加，超出编辑器一个 edgeSize 时达到最大速度
+const getEdgeScrollSpeed = (position: number, start: number, end: number, edgeSize: number, maxSpeed: number) => {
+    if (edgeSize <= 0 || end - start <= edgeSize * 2) return 0
+    let depth = 0
+    if (position < start + edgeSize) depth = position - (start + edgeSize)
+    else if (position > end - edgeSize) depth = position - (end - edgeSize)
+    const ratio = Math.max(-1, Math.min(1, depth / (edgeSize * 2)))
+    return ratio * maxSpeed
+}
 
-        const leftSelectorEl = document.createElement('div')
-        leftSelectorEl.classList.add('left')
-        leftSelector = toSelector(leftSelectorEl)
-        selections.appendChild(leftSelectorEl)
+// 编辑器内容区域中可见的部分，以视口坐标表示。软键盘弹出时会遮挡编辑器的下半部分，因此与 visualViewport 取交集
+const getVisibleContentBounds = (editor: ICodeEditor, domNode: HTMLElement) => {
+    const rect = domNode.getBoundingClientRect()
+    const {contentLeft, contentWidth, height} = editor.getLayoutInfo()
+    const viewport = getViewportRect(domNode.ownerDocument)
+    return {
+        left: rect.left + contentLeft,
+        right: rect.left + contentLeft + contentWidth,
+        top: Math.max(rect.top, viewport.top),
+        bottom: Math.min(rect.top + height, viewport.top + viewport.height),
+    }
+}
 
-        const rightSelectorEl = document.createElement('div')
-        rightSelectorEl.classList.add('right')
-        rightSelector = toSelector(rightSelectorEl)
-        selections.appendChild(rightSelectorEl)
+// 拖动时在编辑器边缘自动滚动，每帧按帧间隔与速度计算滚动距离，之后调用 onFrame 同步选区
+const startEdgeAutoScroll = (
+    editor: ICodeEditor,
+    options: Required<AutoScrollOptions> | null,
+    getPoint: () => ClientPoint,
+    onFrame: () => void
+): IDisposable => {
+    let frame = 0
+    let lastTime: number | null = null
+    // 累积不足 1px 的滚动距离，避免低速时停滞
+    let remainderX = 0
+    let remainderY = 0
 
-        let lineHeight = editor.getOption(OPTION_LineHeight)
-        let fontSize = editor.getOption(OPTION_FontSize)
+    const tick = (time: number) => {
+        const elapsed = lastTime === null ? 0 : Math.min(time - lastTime, MAX_AUTO_SCROLL_FRAME_TIME) / 1000
+        lastTime = time
 
-        const syncSelectorStyle = (lineHeight: number) => {
-            if (leftSelector) {
-                leftSelector.textCursor.style.height = `${lineHeight}px`
-                leftSelector.bottomCursor.style.marginTop = `${lineHeight}px`
-            }
-            if (rightSelector) {
-                rightSelector.textCursor.style.height = `${lineHeight}px`
-                rightSelector.bottomCursor.style.marginTop = `${lineHeight}px`
-            }
+        const domNode = editor.getDomNode()
+        if (options && domNode) {
+            const {edgeSize, maxSpeed} = options
+            const bounds = getVisibleContentBounds(editor, domNode)
+            const point = getPoint()
+
+            remainderY += getEdgeScrollSpeed(point.clientY, bounds.top, bounds.bottom, edgeSize, maxSpeed) * elapsed
+            remainderX += getEdgeScrollSpeed(point.clientX, bounds.left, bounds.right, edgeSize, maxSpeed) * elapsed
+
+            const stepY = Math.trunc(remainderY)
+            const stepX = Math.trunc(remainderX)
+            remainderY -= stepY
+            remainderX -= stepX
+            if (stepY !== 0) editor.setScrollTop(editor.getScrollTop() + stepY, SCROLL_Immediate)
+            if (stepX !== 0) editor.setScrollLeft(editor.getScrollLeft() + stepX, SCROLL_Immediate)
         }
-        syncSelectorStyle(lineHeight)
-        editor.onDidChangeConfiguration((e) => {
-            if (e.hasChanged(OPTION_LineHeight)) {
-                lineHeight = editor.getOption(OPTION_LineHeight)
-                syncSelectorStyle(lineHeight)
+
+        onFrame()
+        frame = requestAnimationFrame(tick)
+    }
+    frame = requestAnimationFrame(tick)
+
+    return {
+        dispose: () => {
+            cancelAnimationFrame(frame)
+        }
+    }
+}
+
+export const asyncClipboardProvider: ClipboardProvider = {
+    available: () => typeof navigator !== 'undefined' && typeof navigator.clipboard !== 'undefined',
+    readText: () => navigator.clipboard.readText(),
+    writeText: (text: string) => navigator.clipboard.writeText(text),
+}
+
+// 编辑器可能位于同源 iframe 中，沿焦点找到实际获得焦点的 document
+const getFocusedDocument = () => {
+    let targetDocument = document
+    let activeElement = targetDocument.activeElement
+    while (activeElement?.tagName === 'IFRAME') {
+        const frameDocument = (activeElement as HTMLIFrameElement).contentDocument
+        if (!frameDocument) break
+        targetDocument = frameDocument
+        activeElement = targetDocument.activeElement
+    }
+    return targetDocument
+}
+
+// 借助隐藏的 textarea 执行 document.execCommand，结束后恢复原有焦点
+const runClipboardCommand = (targetDocument: Document, command: 'copy' | 'paste', text: string = ''): string => {
+    const activeElement = targetDocument.activeElement as HTMLElement | null
+    const textarea = targetDocument.createElement('textarea')
+    textarea.value = text
+    // readonly 是布尔属性，只要存在就生效，因此只在复制时设置，否则粘贴不会写入 textarea
+    if (command === 'copy') textarea.readOnly = true
+    textarea.style.position = 'fixed'
+    textarea.style.top = '0'
+    textarea.style.left = '0'
+    textarea.style.opacity = '0'
+    targetDocument.body.appendChild(textarea)
+
+    try {
+        textarea.focus()
+        textarea.select()
+        if (!targetDocument.execCommand(command)) {
+            throw new Error(`execCommand ${command} is not supported`)
+        }
+        // 部分 WebView 允许 paste 却不写入内容，视为失败以便回退到其他 provider
+        if (command === 'paste' && textarea.value === '') {
+            throw new Error('execCommand paste returned no text')
+        }
+        return textarea.value
+    } finally {
+        textarea.remove()
+        // activeElement 可能来自 iframe，不能用当前窗口的 HTMLElement 判断
+        if (typeof activeElement?.focus === 'function') activeElement.focus()
+    }
+}
+
+export const execCommandClipboardProvider: ClipboardProvider = {
+    available: () => typeof document !== 'undefined' && typeof document.execCommand === 'function',
+    readText: async () => runClipboardCommand(getFocusedDocument(), 'paste'),
+    writeText: async (text: string) => {
+        runClipboardCommand(getFocusedDocument(), 'copy', text)
+    },
+}
+
+// 所有编辑器共享的内存剪贴板
+let memoryClipboardText = ''
+
+export const memoryClipboardProvider: ClipboardProvider = {
+    available: () => true,
+    readText: async () => memoryClipboardText,
+    writeText: async (text: string) => {
+        memoryClipboardText = text
+    },
+}
+
+// 依次尝试各个 provider，写入时同时写入内存剪贴板，读取全部失败时返回内存剪贴板内容
+export const createClipboardProviderChain = (...providers: ClipboardProvider[]): ClipboardProvider => {
+    return {
+        available: () => true,
+        readText: async () => {
+            for (const provider of providers) {
+                if (provider.available && !provider.available()) continue
+                try {
+                    return await provider.readText()
+                } catch {
+                    // try next provider
+                }
             }
-            if (e.hasChanged(OPTION_FontSize)) {
-                fontSize = editor.getOption(OPTION_FontSize)
+            return memoryClipboardText
+        },
+        writeText: async (text: string) => {
+            memoryClipboardText = text
+            for (const provider of providers) {
+                if (provider.available && !provider.available()) continue
+                try {
+                    await provider.writeText(text)
+                    return
+                } catch {
+                    // try next provider
+                }
             }
-        })
+        },
+    }
+}
 
-        editorOverlayGuard.append(selections)
-        editor.onDidScrollChange((e) => {
-            if (selections) {
-                selections.style.top = `-${e.scrollTop}px`
-                selections.style.left = `-${e.scrollLeft}px`
+export const defaultClipboardProvider = createClipboardProviderChain(
+    asyncClipboardProvider,
+    execCommandClipboardProvider,
+    memoryClipboardProvider,
+)
+
+// 与 Monaco 的 InMemoryClipboardMetadataManager 一致，记录最近一次多光标复制的各段文本，所有编辑器共享
+let clipboardMetadata: { text: string, multicursorText: string[] } | null = null
+
+// 所有编辑器共享的 selection classifier，按注册顺序向菜单追加工具，id 相同时替换已有的 classifier
+const selectionClassifierRegistry = new Map<string, SelectionClassifier>()
+// 注册表变化时递增，菜单据此判断是否需要重新分类
+let selectionClassifierRegistryVersion = 0
+
+export const registerSelectionClassifier = (classifier: SelectionClassifier): IDisposable => {
+    selectionClassifierRegistry.set(classifier.id, classifier)
+    selectionClassifierRegistryVersion++
+    return {
+        dispose: () => {
+            if (selectionClassifierRegistry.get(classifier.id) === classifier) {
+                selectionClassifierRegistry.delete(classifier.id)
+                selectionClassifierRegistryVersion++
             }
-        })
+        }
+    }
+}
 
-        const setupSelectorTouchEvent = (
-            selector: Selector,
-            updateSelection: (selection: IRange, position: IPosition) => IRange
-        ) => {
-            const showSelectionMenuByTouch = (touch: Touch) => {
-                if (touch && selectorMenu && leftSelector && rightSelector) {
-                    showSelectorMenu()
+export const getSelectionClassifiers = (): SelectionClassifier[] => [...selectionClassifierRegistry.values()]
 
-                    const leftRect = leftSelector.getBoundingClientRect()
-                    const rightRect = rightSelector.getBoundingClientRect()
+// 超过该长度的选区不进行分类
+const MAX_CLASSIFY_TEXT_LENGTH = 2048
 
-                    // 计算 touch 点到 left selector 的距离
-                    const leftDistancePow2 = Math.pow(touch.clientX - (leftRect.left + leftRect.width / 2), 2) +
-                        Math.pow(touch.clientY - (leftRect.top + leftRect.height / 2), 2)
+const URL_REGEX = /^(?:https?:\/\/|www\.)[^\s<>"]+$/i
+const EMAIL_REGEX = /^[^\s@<>()",;]+@[^\s@<>()",;]+\.[^\s@<>()",;]+$/
+const HEX_COLOR_REGEX = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i
+const RGB_COLOR_REGEX = /^rgba?\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})\s*(?:,\s*(\d*\.?\d+)\s*)?\)$/i
+const NUMBER_REGEX = /^[-+]?\d+(\.\d+)?$/
 
-                    // 计算 touch 点到 right selector 的距离
-                    const rightDistancePow2 = Math.pow(touch.clientX - (rightRect.left + rightRect.width / 2), 2) +
-                        Math.pow(touch.clientY - (rightRect.top + rightRect.height / 2), 2)
+const LINK_ICON = '<path d="M9 15l6 -6" /><path d="M11 6l.463 -.536a5 5 0 0 1 7.071 7.072l-.534 .464" /><path d="M13 18l-.397 .534a5.068 5.068 0 0 1 -7.127 0a4.972 4.972 0 0 1 0 -7.071l.524 -.463" />'
+const MAIL_ICON = '<path d="M3 7a2 2 0 0 1 2 -2h14a2 2 0 0 1 2 2v10a2 2 0 0 1 -2 2h-14a2 2 0 0 1 -2 -2v-10z" /><path d="M3 7l9 6l9 -6" />'
+const SHARE_ICON = '<path d="M6 12m-3 0a3 3 0 1 0 6 0a3 3 0 1 0 -6 0" /><path d="M18 6m-3 0a3 3 0 1 0 6 0a3 3 0 1 0 -6 0" /><path d="M18 18m-3 0a3 3 0 1 0 6 0a3 3 0 1 0 -6 0" /><path d="M8.7 10.7l6.6 -3.4" /><path d="M8.7 13.3l6.6 3.4" />'
+const PLUS_ICON = '<path d="M12 5l0 14" /><path d="M5 12l14 0" />'
+const MINUS_ICON = '<path d="M5 12l14 0" />'
 
-                    // 选择距离更近的 selector
-                    const closerRect = leftDistancePow2 <= rightDistancePow2 ? leftRect : rightRect;
+type RGBAColor = { r: number, g: number, b: number, a: number }
 
-                    const elementRect = element.getBoundingClientRect()
-                    const menuRect = selectorMenu.getBoundingClientRect()
+const parseColor = (text: string): RGBAColor | null => {
+    const hexMatch = HEX_COLOR_REGEX.exec(text)
+    if (hexMatch) {
+        let hex = hexMatch[1]
+        if (hex.length <= 4) hex = [...hex].map(char => char + char).join('')
+        return {
+            r: parseInt(hex.slice(0, 2), 16),
+            g: parseInt(hex.slice(2, 4), 16),
+            b: parseInt(hex.slice(4, 6), 16),
+            a: hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1,
+        }
+    }
+    const rgbMatch = RGB_COLOR_REGEX.exec(text)
+    if (rgbMatch) {
+        const [r, g, b] = rgbMatch.slice(1, 4).map(Number)
+        const a = rgbMatch[4] === undefined ? 1 : Number(rgbMatch[4])
+        if (r > 255 || g > 255 || b > 255 || a > 1) return null
+        return {r, g, b, a}
+    }
+    return null
+}
 
-                    let x = closerRect.left - menuRect.width / 2
-                    if (x + menuRect.width > elementRect.width + elementRect.left) x = elementRect.width + elementRect.left - menuRect.width
-                    if (x < 0) x = 0
+const toHexColor = ({r, g, b, a}: RGBAColor) => {
+    const channels = a < 1 ? [r, g, b, Math.round(a * 255)] : [r, g, b]
+    return '#' + channels.map(channel => channel.toString(16).padStart(2, '0')).join('')
+}
 
-                    let y = closerRect.top - menuRect.height
-                    if (y + menuRect.height > elementRect.height + elementRect.top) y = elementRect.height + elementRect.top - menuRect.height
-                    if (y < 0) y = closerRect.top + lineHeight
+const toRgbColor = ({r, g, b, a}: RGBAColor) => {
+    if (a < 1) return `rgba(${r}, ${g}, ${b}, ${Number(a.toFixed(3))})`
+    return `rgb(${r}, ${g}, ${b})`
+}
 
-                    // 防止超出视野范围
-                    if (window.visualViewport) {
-                        const maxX = window.visualViewport.width + window.visualViewport.offsetLeft - menuRect.width
-                        const maxY = window.visualViewport.height + window.visualViewport.offsetTop - menuRect.height
+const createColorSwatch = (color: string) => {
+    const swatch = document.createElement('span')
+    swatch.classList.add('color-swatch')
+    swatch.style.backgroundColor = color
+    return swatch
+}
 
-                        if (x < window.visualViewport.offsetLeft) x = window.visualViewport.offsetLeft
-                        else if (x > maxX) x = maxX
-                        if (y < window.visualViewport.offsetTop) y = window.visualViewport.offsetTop
-                        else if (y > maxY) y = maxY
-                    } else {
-                        const maxX = document.body.clientWidth + document.documentElement.offsetLeft - menuRect.width
-                        const maxY = document.body.clientHeight + document.documentElement.offsetTop - menuRect.height
+// 保持原有的小数位数
+const stepNumberText = (text: string, delta: number) => {
+    const decimals = text.split('.')[1]?.length ?? 0
+    return (Number(text) + delta).toFixed(decimals)
+}
 
-                        if (x < document.documentElement.offsetLeft) x = document.documentElement.offsetLeft;
-                        else if (x > maxX) x = maxX;
-                        if (y < document.body.offsetTop) y = document.body.offsetTop;
-                        else if (y > maxY) y = maxY;
-                    }
+// 优先使用 Web Share API，不支持或分享失败时复制到剪贴板，用户取消分享时不做处理
+const shareText = async (data: ShareData, fallbackText: string, clipboard: ClipboardProvider) => {
+    if (typeof navigator !== 'undefined' && typeof navigator.share === 'function' && (navigator.canShare?.(data) ?? true)) {
+        try {
+            await navigator.share(data)
+            return
+        } catch (e) {
+            if (e instanceof DOMException && e.name === 'AbortError') return
+        }
+    }
+    await clipboard.writeText(fallbackText)
+}
 
-                    selectorMenu.style.transform = `translateX(${x}px) translateY(${y}px)`
-                }
-            }
+export const urlSelectionClassifier: SelectionClassifier = {
+    id: 'url',
+    classify: ({text, messages, clipboard, closeMenu}) => {
+        if (!URL_REGEX.test(text)) return undefined
+        const href = /^www\./i.test(text) ? `https://${text}` : text
+        try {
+            new URL(href)
+        } catch {
+            return undefined
+        }
+        return [
+            {
+                name: ContentToolName.OpenLink,
+                label: messages[ContentToolName.OpenLink],
+                group: 'content',
+                innerHTML: toIconHTML(LINK_ICON),
+                action: () => {
+                    closeMenu()
+                    window.open(href, '_blank', 'noopener')
+                },
+            },
+            {
+                name: ContentToolName.Share,
+                label: messages[ContentToolName.Share],
+                group: 'content',
+                innerHTML: toIconHTML(SHARE_ICON),
+                action: async () => {
+                    closeMenu()
+                    await shareText({url: href}, href, clipboard)
+                },
+            },
+        ]
+    },
+}
 
-            let touchStartTime: number = 0
-            selector.addEventListener('touchstart', (event: TouchEvent) => {
-                const initialSelection = editor.getSelection()
-                if (!initialSelection) return
+export const emailSelectionClassifier: SelectionClassifier = {
+    id: 'email',
+    classify: ({text, messages, closeMenu}) => {
+        if (!EMAIL_REGEX.test(text)) return undefined
+        return [{
+            name: ContentToolName.SendEmail,
+            label: messages[ContentToolName.SendEmail],
+            group: 'content',
+            innerHTML: toIconHTML(MAIL_ICON),
+            action: () => {
+                closeMenu()
+                window.open(`mailto:${text}`, '_self')
+            },
+        }]
+    },
+}
 
-                let touch = event.changedTouches[0] ?? event.touches[0]
+// 工具本身显示颜色预览，子菜单中可以复制为十六进制或 rgb 格式
+export const colorSelectionClassifier: SelectionClassifier = {
+    id: 'color',
+    classify: ({text, messages, clipboard, closeMenu}) => {
+        const color = parseColor(text)
+        if (!color) return undefined
+        const copyTool = (value: string): SelectorMenuTool => ({
+            name: value,
+            innerHTML: () => createColorSwatch(value),
+            action: async () => {
+                await clipboard.writeText(value)
+                closeMenu()
+            },
+        })
+        return [{
+            name: ContentToolName.PreviewColor,
+            label: messages[ContentToolName.PreviewColor],
+            group: 'content',
+            innerHTML: () => createColorSwatch(toRgbColor(color)),
+            action: () => {},
+            children: [copyTool(toHexColor(color)), copyTool(toRgbColor(color))],
+        }]
+    },
+}
 
-                const selectionIsEmpty = initialSelection.isEmpty()
+// 替换选中的数字并保持选中，便于连续调整
+export const numberSelectionClassifier: SelectionClassifier = {
+    id: 'number',
+    classify: ({editor, text, selection, messages, openMenu}) => {
+        if (!NUMBER_REGEX.test(text) || !Number.isSafeInteger(Math.trunc(Number(text)))) return undefined
+        const stepTool = (name: ContentToolName, icon: string, delta: number): SelectorMenuTool => ({
+            name,
+            label: messages[name],
+            group: 'content',
+            innerHTML: toIconHTML(icon),
+            action: () => {
+                const nextText = stepNumberText(text, delta)
+                editor.executeEdits(name, [{range: selection, text: nextText}])
+                editor.pushUndoStop()
+                editor.setSelection({
+                    startLineNumber: selection.startLineNumber,
+                    startColumn: selection.startColumn,
+                    endLineNumber: selection.startLineNumber,
+                    endColumn: selection.startColumn + nextText.length,
+                })
+                openMenu()
+            },
+            visible: ({readOnly}) => !readOnly,
+        })
+        return [
+            stepTool(ContentToolName.Decrement, MINUS_ICON, -1),
+            stepTool(ContentToolName.Increment, PLUS_ICON, 1),
+        ]
+    },
+}
 
-                let revealTimer = setInterval(() => {
-                    scrollTopExtremityFit(editor, touch, lineHeight)
-                    scrollLeftExtremityFit(editor, touch, fontSize)
-                    const target = editor.getTargetAtClientPoint(touch.clientX, touch.clientY - lineHeight / 2)
-                    if (target && target.position) {
-                        if (selectionIsEmpty) {
-                            editor.setPosition(target.position)
-                        } else {
-                            editor.setSelection(updateSelection(initialSelection, target.position))
-                        }
-                    }
-                }, REVEAL_INTERVAL)
+// 内置的 classifier 不会自动注册，避免升级后菜单中出现新的工具，需要时逐个或整体注册
+export const builtinSelectionClassifiers: SelectionClassifier[] = [
+    urlSelectionClassifier,
+    emailSelectionClassifier,
+    colorSelectionClassifier,
+    numberSelectionClassifier,
+]
 
-                const handleMove = (event: TouchEvent) => {
-                    event.preventDefault()
-                    touch = event.changedTouches[0] ?? event.touches[0]
-                }
+const defaultToolActionErrorHandler = (name: string, error: Error | unknown) => {
+    console.error(`tool ${name} cause error: `, error)
+}
 
-                const handleEnd = (event: TouchEvent) => {
-                    clearTimeout(revealTimer)
+const styleInjectedRoots = new WeakSet<Document | ShadowRoot>()
 
-                    if (Date.now() - touchStartTime > OPEN_MENU_TIMEOUT) {
-                        return
-                    }
+// 将 style.css 注入到文档或 shadowRoot 中，同一位置只注入一次，多个编辑器共享。
+// 根节点可能来自 iframe，不能用当前窗口的 Document / ShadowRoot 判断，改用 nodeType
+const injectStyleSheet = (root: Node) => {
+    const targetRoot = root.getRootNode()
+    const isDocument = targetRoot.nodeType === Node.DOCUMENT_NODE
+    const isShadowRoot = targetRoot.nodeType === Node.DOCUMENT_FRAGMENT_NODE && 'host' in targetRoot
+    if (!isDocument && !isShadowRoot) return
+    const styleRoot = targetRoot as Document | ShadowRoot
+    if (styleInjectedRoots.has(styleRoot)) return
+    styleInjectedRoots.add(styleRoot)
+    const targetDocument = isDocument ? styleRoot as Document : (styleRoot as ShadowRoot).ownerDocument
+    const style = targetDocument.createElement('style')
+    style.dataset.monacoTouchSelection = ''
+    style.textContent = styleText
+    if (isDocument) targetDocument.head.prepend(style)
+    else styleRoot.prepend(style)
+}
 
-                    event.preventDefault()
-                    touch = event.changedTouches[0] ?? event.touches[0]
-                    handleMove(event)
+// 获取包括 Shadow DOM 在内的实际焦点元素
+const getDeepActiveElement = (targetDocument: Document) => {
+    let activeElement = targetDocument.activeElement
+    while (activeElement?.shadowRoot?.activeElement) {
+        activeElement = activeElement.shadowRoot.activeElement
+    }
+    return activeElement
+}
 
-                    if (selectorMenu && editor.getSelection() !== null) {
-                        showSelectionMenuByTouch(touch)
-                    }
+// 只复制 [top, bottom] 范围内的行及其装饰与光标层，避免放大镜每帧深拷贝整个编辑器。
+// 行与装饰以 top 定位在 lines-content 中，lines-content 本身随滚动偏移
+const cloneLinesAround = (scrollable: Element, top: number, bottom: number, lineHeight: number) => {
+    const scrollableClone = scrollable.cloneNode(false)
+    const linesContent = scrollable.querySelector<HTMLElement>('.lines-content')
+    if (!linesContent) return scrollableClone
+    const linesContentClone = linesContent.cloneNode(false)
+    const linesContentTop = parseFloat(linesContent.style.top) || 0
 
-                    document.removeEventListener('touchmove', handleMove)
-                    document.removeEventListener('touchend', handleEnd)
-                    document.removeEventListener('touchcancel', handleEnd)
-                }
+    for (const layer of linesContent.children) {
+        if (layer.matches('.view-lines, .view-overlays')) {
+            const layerClone = layer.cloneNode(false)
+            for (const line of layer.children) {
+                const lineTop = parseFloat((line as HTMLElement).style.top) + linesContentTop
+                if (lineTop + lineHeight < top || lineTop > bottom) continue
+                layerClone.appendChild(line.cloneNode(true))
+            }
+            linesContentClone.appendChild(layerClone)
+        } else if (layer.matches('.cursors-layer')) {
+            linesContentClone.appendChild(layer.cloneNode(true))
+        }
+    }
+
+    scrollableClone.appendChild(linesContentClone)
+    return scrollableClone
+}
+
+// 菜单以 top: 0; left: 0 定位在容器中，先取得未变换时的位置作为原点，
+// 再将视口坐标转换为相对于原点的偏移，因此不依赖容器的定位方式与滚动位置
+const placeMenuElement = (menuElement: HTMLElement, clientX: number, clientY: number) => {
+    menuElement.style.transform = ''
+    const originRect = menuElement.getBoundingClientRect()
+    menuElement.style.transform = `translateX(${clientX - originRect.left}px) translateY(${clientY - originRect.top}px)`
+}
 
-                touchStartTime = Date.now()
-                document.addEventListener('touchmove', handleMove, {passive: false})
-                document.addEventListener('touchend', handleEnd)
-                document.addEventListener('touchcancel', handleEnd)
-            }, {passive: true})
+// 菜单所在文档的可视区域，以视口坐标表示
+const getViewportRect = (targetDocument: Document) => {
+    const visualViewport = targetDocument.defaultView?.visualViewport
+    if (visualViewport) {
+        return {
+            left: visualViewport.offsetLeft,
+            top: visualViewport.offsetTop,
+            width: visualViewport.width,
+            height: visualViewport.height,
         }
+    }
+    return {
+        left: 0,
+        top: 0,
+        width: targetDocument.documentElement.clientWidth,
+        height: targetDocument.documentElement.clientHeight,
+    }
+}
 
-        setupSelectorTouchEvent(leftSelector, updateSelectionStart)
-        setupSelectorTouchEvent(rightSelector, updateSelectionEnd)
+// 多个编辑器共享的菜单位置（diff editor 的两侧）。菜单、子菜单、播报区域与辅助栏按需创建，
+// 创建前先让当前的占用者释放这些元素，因此同一时间只存在一组
+type SharedMenuSlot = {
+    release: (() => void) | null,
+}
 
-        const setupTextCursorSelectWord = (textSelector: HTMLDivElement) => {
-            let lastTouchTime = 0
+type TouchSelectionHost = {
+    menuSlot?: SharedMenuSlot,
+    // 缩放时修改字号与行高，diff editor 中同时作用于两侧
+    applyZoom?: (zoom: { fontSize: number, lineHeight?: number }) => void,
+}
 
-            textSelector.addEventListener('touchstart', () => {
-                lastTouchTime = Date.now()
-            }, {passive: true})
+const createEditorTouchSelection = (
+    editor: ICodeEditor,
+    options: EditorTouchSelectionOptions | undefined,
+    host: TouchSelectionHost
+): EditorTouchSelectionController => {
+    let {
+        tools,
+        selectionSyncTimeout = DEFAULT_SELECTION_SYNC_TIMEOUT,
+        toolActionErrorHandler = defaultToolActionErrorHandler,
+        magnifier: magnifierOptions = false,
+        autoScroll = true,
+        handleTouchSize,
+        pinchZoom = false,
+        textDrag = false,
+        trackpad = false,
+        accessoryBar: accessoryBarOptions = false,
+        inputMode = 'touch',
+        granularity = 'character',
+        haptics = false,
+        clipboard = defaultClipboardProvider,
+        locale,
+        messages,
+        toolLabels = 'none',
+        themeColors = false,
+        menuContainer,
+        selectionClassifiers = true,
+    } = options ?? {}
 
-            textSelector.addEventListener('touchend', () => {
-                if (Date.now() - lastTouchTime > DBLCLICK_OPEN_MENU_TIMEOUT) {
-                    return
-                }
+    let menuMessages = resolveSelectorMenuMessages(locale, messages)
 
-                const selection = editor.getSelection()
-                if (!selection) return
-                if (selection?.startColumn !== selection.endColumn || selection.startLineNumber !== selection.endLineNumber) return
+    const usePointerInput = inputMode === 'pointer' || (inputMode === 'auto' && typeof PointerEvent !== 'undefined')
+    const pressEventNames = usePointerInput ?
+        {start: 'pointerdown', end: 'pointerup'} :
+        {start: 'touchstart', end: 'touchend'}
 
-                const model = editor.getModel()
-                if (!model) return
+    if (!editor) {
+        throw new Error("editor not existed")
+    }
 
-                const word = model.getWordAtPosition(selection.getStartPosition())
-                if (word) {
-                    editor.setSelection({
-                        startLineNumber: selection.startLineNumber,
-                        startColumn: word.startColumn,
-                        endLineNumber: selection.endLineNumber,
-                        endColumn: word.endColumn,
-                    })
-                    setTimeout(() => {
-                        editor.focus()
-                    })
-                }
-            }, {passive: true})
+    const element = editor.getDomNode()
+    if (!element || !(element instanceof HTMLElement)) {
+        throw new Error("editor container element not existed or it is not a HTMLElement")
+    }
+
+    const resolveMenuContainer = (): MenuContainer => {
+        if (typeof menuContainer === 'function') return menuContainer(editor)
+        return menuContainer ?? element.ownerDocument.documentElement
+    }
+    let selectorMenuContainer = resolveMenuContainer()
+    const getMenuDocument = () => selectorMenuContainer.ownerDocument ?? element.ownerDocument
+
+    if (options?.injectStyles) {
+        injectStyleSheet(element)
+        injectStyleSheet(selectorMenuContainer)
+    }
+
+    const editorOverlayGuard = element.querySelector('.overflow-guard')
+    if (!editorOverlayGuard || !(editorOverlayGuard instanceof HTMLElement)) {
+        throw new Error("no overlay guard or it is not a HTMLElement")
+    }
+
+    let disposed = false
+
+    // 使用 Monaco 主题颜色。主题颜色以 --vscode-* 变量的形式定义在 .monaco-component 上，
+    // 切换主题时 Monaco 会更新这些变量，因此不需要额外监听主题变化
+    const syncThemeClass = (themedElement: HTMLElement | null) => {
+        if (!themedElement) return
+        themedElement.classList.toggle('themed', themeColors)
+        themedElement.classList.toggle('monaco-component', themeColors)
+    }
+    const disposables: IDisposable[] = []
+
+    const handleDragStartEmitter = createEventEmitter<HandleDragEvent>()
+    const handleDragMoveEmitter = createEventEmitter<HandleDragEvent>()
+    const handleDragEndEmitter = createEventEmitter<HandleDragEvent>()
+    const menuOpenEmitter = createEventEmitter<void>()
+    const menuCloseEmitter = createEventEmitter<void>()
+    const beforeToolActionEmitter = createEventEmitter<BeforeToolActionEvent>()
+    const toolActionCompleteEmitter = createEventEmitter<ToolActionCompleteEvent>()
+    const zoomChangeEmitter = createEventEmitter<ZoomChangeEvent>()
+    disposables.push(
+        handleDragStartEmitter,
+        handleDragMoveEmitter,
+        handleDragEndEmitter,
+        menuOpenEmitter,
+        menuCloseEmitter,
+        beforeToolActionEmitter,
+        toolActionCompleteEmitter,
+        zoomChangeEmitter,
+    )
+
+    // 正在进行中的拖拽，用于 dispose 时移除挂在 document 上的监听
+    let activeDragCleanup: (() => void) | null = null
+
+    let selectionsShow = false
+    let selections: HTMLDivElement | null = null
+    // 每个选区对应一对 selector，下标与 editor.getSelections() 一致
+    let selectorPairs: SelectorPair[] = []
+    // 选区端点不在视图中时，在对应方向的边缘显示指示器
+    let selectionIndicators: Record<EdgeDirection, HTMLDivElement> | null = null
+    const indicatorTargets = new Map<EdgeDirection, SelectionEnd>()
+    const showSelections = () => {
+        if (!selections) return
+        if (selectionsShow) return
+        selectionsShow = true
+        selections.classList.add('show')
+        syncSelectionIndicators()
+    }
+    const hideSelections = () => {
+        if (!selections) return
+        if (!selectionsShow) return
+        selectionsShow = false
+        selections.classList.remove('show')
+        syncSelectionIndicators()
+    }
+
+    let lineHeight = editor.getOption(OPTION_LineHeight)
+
+    let selectorMenuShow = false
+    let selectorMenu: HTMLDivElement | null = null
+    // classified 为 selection classifier 提供的工具，随选中文本变化
+    let selectorMenuItems: { tool: SelectorMenuTool, element: HTMLDivElement, enabled: boolean, classified: boolean }[] = []
+
+    const getMenuToolContext = (): SelectorMenuToolContext => {
+        const currentSelections = editor.getSelections() ?? []
+        return {
+            editor,
+            selections: currentSelections,
+            selectionIsEmpty: currentSelections.every(selection => selection.isEmpty()),
+            readOnly: editor.getOption(OPTION_ReadOnly),
+            clipboardAvailable: clipboard.available?.() ?? true,
+        }
+    }
+
+    const syncMenuToolStates = () => {
+        const context = getMenuToolContext()
+        for (const item of selectorMenuItems) {
+            const visible = item.tool.visible?.(context) ?? true
+            item.enabled = item.tool.enabled?.(context) ?? true
+            item.element.classList.toggle('hidden', !visible)
+            item.element.classList.toggle('disabled', !item.enabled)
+            item.element.setAttribute('aria-disabled', String(!item.enabled))
         }
+    }
 
-        setupTextCursorSelectWord(leftSelector.textCursor)
-        setupTextCursorSelectWord(rightSelector.textCursor)
+    // 用于向读屏软件播报工具执行失败等信息
+    let liveRegion: HTMLDivElement | null = null
 
-        const selection = editor.getSelection()
-        if (selection) debounceSyncSelectionTransform(selection)
+    // 软键盘上方的辅助按键栏，编辑器获得焦点且软键盘弹出时显示，见 syncAccessoryBar
+    let accessoryBar: HTMLDivElement | null = null
+    let accessoryBarItems: { tool: SelectorMenuTool, element: HTMLDivElement, enabled: boolean }[] = []
+
+    // 移除菜单、子菜单、播报区域与辅助栏，之后使用时重新创建
+    const removeSelectorMenu = () => {
+        selectorMenu?.remove()
+        selectorMenu = null
+        selectorMenuItems = []
+        selectorMenuMoreItem = null
     }
 
-    editor.onDidChangeCursorSelection((e) => {
+    const releaseMenuElements = () => {
         hideSelectorMenu()
-        setTimeout(() => {
-            debounceSyncSelectionTransform(e.selection)
-        }, 0)
+        removeSelectorMenu()
+        selectorSubmenu?.remove()
+        liveRegion?.remove()
+        accessoryBar?.remove()
+        selectorSubmenu = null
+        selectorSubmenuStack = []
+        liveRegion = null
+        accessoryBar = null
+        accessoryBarItems = []
+    }
+
+    // 与其他编辑器共享菜单位置时，创建元素前让其他编辑器释放它们的元素
+    const claimMenuElements = () => {
+        const menuSlot = host.menuSlot
+        if (!menuSlot || menuSlot.release === releaseMenuElements) return
+        menuSlot.release?.()
+        menuSlot.release = releaseMenuElements
+    }
+    const announce = (text: string) => {
+        // 异步工具可能在 dispose 之后才失败，此时不再创建 live region
+        if (disposed) return
+        if (!liveRegion) {
+            claimMenuElements()
+            liveRegion = document.createElement('div')
+            liveRegion.classList.add('monaco-editor-touch-selection-live')
+            liveRegion.setAttribute('role', 'alert')
+            liveRegion.setAttribute('aria-live', 'assertive')
+            selectorMenuContainer.append(liveRegion)
+        }
+        liveRegion.textContent = text
+    }
+
+    const handleToolActionError = async (name: string, error: Error | unknown, label: string = name) => {
+        announce(menuMessages.toolActionFailed.replace('{name}', label))
+        await toolActionErrorHandler(name, error)
+    }
+
+    const showSelectorMenu = () => {
+        if (disposed) return
+        // 菜单在第一次打开时创建
+        if (!selectorMenu) initSelectorMenu()
+        if (!selectorMenu) return
+        syncClassifiedTools()
+        syncMenuToolStates()
+        if (!selectorMenuShow) {
+            selectorMenuShow = true
+            selectorMenu.classList.add('show')
+            layoutSelectorMenu()
+            menuOpenEmitter.fire()
+            return
+        }
+        layoutSelectorMenu()
+    }
+    const hideSelectorMenu = () => {
+        hideSelectorSubmenu()
+        if (!selectorMenu) return
+        if (!selectorMenuShow) return
+        selectorMenuShow = false
+        selectorMenu.classList.remove('show')
+        menuCloseEmitter.fire()
+    }
+
+    let resizeOb: ResizeObserver | null = new ResizeObserver(() => {
+        hideSelections()
+        hideSelectorMenu()
+
+        const currentSelections = editor.getSelections()
+        if (currentSelections) debounceSyncSelectionTransform(currentSelections)
     })
+    resizeOb.observe(element)
 
-    initSelections()
+    const dispose = () => {
+        if (disposed) return
+        disposed = true
 
-    const getMenuTools = (
-        selectorMenu: HTMLDivElement
-    ): Iterable<SelectorMenuTool> => {
-        const defaultTools: Map<DefaultToolName, SelectorMenuTool> = new Map([
-            [DefaultToolName.Copy, {
-                name: 'copy',
-                innerHTML: `
-<svg
-    xmlns="http://www.w3.org/2000/svg"
-    class="icon"
-    viewBox="0 0 24 24"
-    stroke-linecap="round"
-    stroke-linejoin="round"
-    style="fill: none;"
->
-    <path d="M 5 8 m 0 2 a 2 2 0 0 1 2 -2 h 8 a 2 2 0 0 1 2 2 v 8 a 2 2 0 0 1 -2 2 h -8 a 2 2 0 0 1 -2 -2 z M 9 6 a 2 2 0 0 1 2 -2 h 8 a 2 2 0 0 1 2 2 v 8 a 2 2 0 0 1 -2 2"/>
-</svg>`,
-                action: async () => {
-                    const result = await copy()
-                    if (result) hideSelectorMenu()
-                }
-            }],
-            [DefaultToolName.Cut, {
-                name: 'cut',
-                innerHTML: `
-<svg
-    xmlns="http://www.w3.org/2000/svg"
-    class="icon"
-    viewBox="0 0 24 24"
-    stroke-linecap="round"
-    stroke-linejoin="round"
-    style="fill: none;"
+        activeDragCleanup?.()
+        activeDragCleanup = null
+
+        clearTimeout(syncSelectorTimer)
+        clearTimeout(cursorSyncTimer)
+
+        for (const disposable of disposables) {
+            disposable.dispose()
+        }
+        disposables.length = 0
+
+        resizeOb?.disconnect()
+        resizeOb = null
+
+        for (const selectorPair of selectorPairs) {
+            selectorPair.dispose()
+        }
+        selections?.remove()
+        for (const indicator of Object.values(selectionIndicators ?? {})) {
+            indicator.remove()
+        }
+        selectorMenu?.remove()
+        selectorSubmenu?.remove()
+        liveRegion?.remove()
+        accessoryBar?.remove()
+        magnifier?.remove()
+        if (host.menuSlot?.release === releaseMenuElements) host.menuSlot.release = null
+
+        selections = null
+        selectorPairs = []
+        selectionIndicators = null
+        indicatorTargets.clear()
+        menuAnchorPair = null
+        selectorMenu = null
+        selectorMenuItems = []
+        selectorMenuMoreItem = null
+        selectorSubmenu = null
+        selectorSubmenuStack = []
+        liveRegion = null
+        accessoryBar = null
+        accessoryBarItems = []
+        magnifier = null
+        magnifierContent = null
+    }
+
+    disposables.push(editor.onDidDispose(dispose))
+
+    const selectAll = () => {
+        editor.focus()
+        const model = editor.getModel()
+        if (model) {
+            const fullRange = model.getFullModelRange()
+            editor.setSelection(fullRange)
+        }
+    }
+
+    const getSortedSelections = (): Selection[] => {
+        const currentSelections = editor.getSelections()
+        if (!currentSelections) return []
+        return [...currentSelections].sort(compareRangesByStart)
+    }
+
+    const getSelectedTexts = (): string[] => {
+        const model = editor.getModel()
+        if (!model) return []
+        return getSortedSelections()
+            .filter(selection => !selection.isEmpty())
+            .map(selection => model.getValueInRange(selection))
+    }
+
+    // 与 Monaco 键盘复制一致，多个选区的文本按位置顺序以换行符连接，并记录各段文本用于粘贴时分配
+    const writeSelectedTexts = async (): Promise<boolean> => {
+        const selectedTexts = getSelectedTexts()
+        const text = selectedTexts.join(editor.getModel()?.getEOL() ?? '\n')
+        if (!text) return false
+        await clipboard.writeText(text)
+        clipboardMetadata = selectedTexts.length > 1 ? {text, multicursorText: selectedTexts} : null
+        return true
+    }
+
+    const copy = async (): Promise<boolean> => {
+        try {
+            return await writeSelectedTexts()
+        } catch (e) {
+            await handleToolActionError('copy', e, menuMessages[DefaultToolName.Copy])
+            return false
+        }
+    }
+
+    const cut = async (): Promise<boolean> => {
+        try {
+            if (!await writeSelectedTexts()) return false
+            const edits = getSortedSelections()
+                .filter(selection => !selection.isEmpty())
+                .map(selection => ({range: selection, text: ''}))
+            editor.executeEdits('cut', edits)
+            return true
+        } catch (e) {
+            await handleToolActionError('cut', e, menuMessages[DefaultToolName.Cut])
+            return false
+        }
+    }
+
+    const paste = async (): Promise<boolean> => {
+        try {
+            const sortedSelections = getSortedSelections()
+            if (sortedSelections.length === 0) return false
+
+            const text = await clipboard.readText()
+            if (text.length === 0) return false
+
+            // 与 Monaco 一致，优先使用多光标复制时记录的各段文本，
+            // 否则按 multiCursorPaste: spread 在行数与光标数相同时逐行分配到各个光标
+            let parts: string[] | null = null
+            if (sortedSelections.length > 1) {
+                if (clipboardMetadata?.text === text && clipboardMetadata.multicursorText.length === sortedSelections.length) {
+                    parts = clipboardMetadata.multicursorText
+                } else {
+                    const lines = text.replace(/\r?\n$/, '').split(/\r\n|\r|\n/)
+                    if (lines.length === sortedSelections.length) parts = lines
+                }
+            }
+
+            editor.executeEdits('paste', sortedSelections.map((selection, index) => ({
+                range: selection,
+                text: parts ? parts[index] : text,
+            })))
+            return true
+        } catch (e) {
+            await handleToolActionError('paste', e, menuMessages[DefaultToolName.Paste])
+            return false
+        }
+    }
+
+    const undo = () => {
+        editor.trigger('keyboard', 'undo', null)
+    }
+
+    const redo = () => {
+        editor.trigger('keyboard', 'redo', null)
+    }
+
+    // 菜单停靠的选区，滚动时据此重新定位菜单
+    let menuAnchorPair: SelectorPair | null = null
+
+    // 可以显示 selector 的区域，以 overflow-guard 为原点，不包括 minimap、滚动条与 sticky scroll
+    const getHandleSafeArea = () => {
+        const {height, contentLeft, contentWidth, horizontalScrollbarHeight} = editor.getLayoutInfo()
+        const stickyWidget = element.querySelector('.sticky-widget')
+        const stickyHeight = stickyWidget instanceof HTMLElement ? stickyWidget.offsetHeight : 0
+        return {
+            left: 0,
+            top: stickyHeight,
+            right: contentLeft + contentWidth,
+            bottom: height - horizontalScrollbarHeight,
+        }
+    }
+
+    const isSelectorVisible = (selector: Selector) => {
+        if (selector.classList.contains('unplaced')) return false
+        const rect = selector.textCursor.getBoundingClientRect()
+        const guardRect = editorOverlayGuard.getBoundingClientRect()
+        const safeArea = getHandleSafeArea()
+        return rect.bottom > guardRect.top + safeArea.top && rect.top < guardRect.top + safeArea.bottom &&
+            rect.left >= guardRect.left + safeArea.left && rect.left <= guardRect.left + safeArea.right
+    }
+
+    const showSelectionMenuByTouch = (touch: ClientPoint) => {
+        if (touch && selectorPairs.length > 0) {
+            // 选择距离 touch 点最近的选区
+            let closerPair: SelectorPair | null = null
+            let closerDistancePow2 = Infinity
+            for (const selectorPair of selectorPairs) {
+                for (const selector of [selectorPair.left, selectorPair.right]) {
+                    const rect = selector.getBoundingClientRect()
+                    const distancePow2 = Math.pow(touch.clientX - (rect.left + rect.width / 2), 2) +
+                        Math.pow(touch.clientY - (rect.top + rect.height / 2), 2)
+                    if (distancePow2 < closerDistancePow2) {
+                        closerDistancePow2 = distancePow2
+                        closerPair = selectorPair
+                    }
+                }
+            }
+            if (!closerPair) return
+            showSelectorMenu()
+            placeSelectorMenuAtPair(closerPair)
+        }
+    }
+
+    // 菜单停靠在选区的 active 一端，该端不在视图中时停靠在另一端，两端都不可见时关闭菜单
+    const placeSelectorMenuAtPair = (selectorPair: SelectorPair) => {
+        if (!selectorMenu) return
+        menuAnchorPair = selectorPair
+
+        const {left, right, activeSelector} = selectorPair
+        const otherSelector = activeSelector === left ? right : left
+        const anchorSelector = [activeSelector, otherSelector].find(isSelectorVisible)
+        if (!anchorSelector) {
+            hideSelectorMenu()
+            return
+        }
+
+        const anchorRect = anchorSelector.getBoundingClientRect()
+
+        const elementRect = element.getBoundingClientRect()
+        const menuRect = selectorMenu.getBoundingClientRect()
+
+        let x = anchorRect.left - menuRect.width / 2
+        if (x + menuRect.width > elementRect.width + elementRect.left) x = elementRect.width + elementRect.left - menuRect.width
+        if (x < 0) x = 0
+
+        let y = anchorRect.top - menuRect.height
+        if (y + menuRect.height > elementRect.height + elementRect.top) y = elementRect.height + elementRect.top - menuRect.height
+        if (y < 0) y = anchorRect.top + lineHeight
+
+        // 防止超出视野范围
+        const viewport = getViewportRect(getMenuDocument())
+        const maxX = viewport.width + viewport.left - menuRect.width
+        const maxY = viewport.height + viewport.top - menuRect.height - getAccessoryBarHeight()
+
+        if (x < viewport.left) x = viewport.left
+        else if (x > maxX) x = maxX
+        if (y < viewport.top) y = viewport.top
+        else if (y > maxY) y = maxY
+
+        placeMenuElement(selectorMenu, x, y)
+    }
+
+    const sameSelectorBottomTransform = "translateX(-50%) translateY(25%) rotate(45deg)"
+    const leftSelectorBottomTransform = "translateX(-100%) rotate(90deg)"
+    const rightSelectorBottomTransform = ""
+
+    // 被折叠或隐藏的行与上一行的 top 相同
+    const isLineHidden = (lineNumber: number) => {
+        return lineNumber > 1 && editor.getTopForLineNumber(lineNumber) <= editor.getTopForLineNumber(lineNumber - 1)
+    }
+
+    // selector 在 selections 容器中的位置。容器随滚动平移，因此使用与滚动无关的内容坐标，
+    // 纵向的 top 已包含自动换行、折叠与 view zone，横向加上 contentLeft 以跟随行号、glyph margin 等的变化。
+    // 位置所在的行被隐藏或尚未渲染时返回 null
+    const getSelectorPlacement = (position: IPosition): { x: number, y: number } | null => {
+        if (isLineHidden(position.lineNumber)) return null
+        const offset = editor.getOffsetForColumn(position.lineNumber, position.column)
+        if (offset < 0) return null
+        return {
+            x: editor.getLayoutInfo().contentLeft + offset,
+            y: editor.getTopForPosition(position.lineNumber, position.column),
+        }
+    }
+
+    const syncSelectorPairTransform = (selectorPair: SelectorPair, selection: Selection) => {
+        const {left, right} = selectorPair
+        const [startSelector, endSelector] = selectorPair.flipped ? [right, left] : [left, right]
+
+        const startPosition: IPosition = {
+            lineNumber: selection.startLineNumber,
+            column: selection.startColumn
+        }
+        const endPosition: IPosition = {
+            lineNumber: selection.endLineNumber,
+            column: selection.endColumn
+        }
+
+        const startPlacement = getSelectorPlacement(startPosition)
+        const endPlacement = getSelectorPlacement(endPosition)
+
+        startSelector.style.opacity = "1"
+        endSelector.style.opacity = "1"
+
+        startSelector.classList.toggle('unplaced', !startPlacement)
+        endSelector.classList.toggle('unplaced', !endPlacement)
+        if (startPlacement) startSelector.style.transform = `translateX(${startPlacement.x}px) translateY(${startPlacement.y}px)`
+        if (endPlacement) endSelector.style.transform = `translateX(${endPlacement.x}px) translateY(${endPlacement.y}px)`
+
+        // 形状只取决于 selector 所在的一端，与拖动的是哪一个 selector 无关
+        if (selection.isEmpty()) {
+            startSelector.bottomCursor.style.transform = sameSelectorBottomTransform
+            endSelector.bottomCursor.style.transform = sameSelectorBottomTransform
+        } else {
+            startSelector.bottomCursor.style.transform = leftSelectorBottomTransform
+            endSelector.bottomCursor.style.transform = rightSelectorBottomTransform
+        }
+
+        const activeAtStart = !selection.isEmpty() && comparePositions(selection.getPosition(), startPosition) === 0
+        selectorPair.activeSelector = activeAtStart ? startSelector : endSelector
+    }
+
+    const syncSelectionTransform = (currentSelections: readonly Selection[]) => {
+        syncSelectorPairCount(currentSelections.length)
+        currentSelections.forEach((selection, index) => {
+            const selectorPair = selectorPairs[index]
+            if (selectorPair) syncSelectorPairTransform(selectorPair, selection)
+        })
+        syncSelectionIndicators()
+    }
+
+    let lastSyncTime = 0
+    let syncSelectorTimer: number | undefined = undefined
+    let selectorDragging = false
+    // 进行中的触控板模式，见 setupTrackpad
+    let trackpadSession: TrackpadSession | null = null
+
+    const debounceSyncSelectionTransform = (currentSelections: readonly Selection[]) => {
+        clearTimeout(syncSelectorTimer)
+        if (!selections) return
+        const currentSyncTime = Date.now()
+        // 拖动 selector 时立即同步，使 selector 跟随手指并能平滑地越过另一端；触控板模式中同理
+        if (selectorDragging || trackpadSession) {
+            lastSyncTime = currentSyncTime
+            syncSelectionTransform(currentSelections)
+            return
+        }
+        if (currentSyncTime - lastSyncTime < selectionSyncTimeout) {
+            lastSyncTime = currentSyncTime
+            for (const {left, right} of selectorPairs) {
+                left.style.opacity = "0"
+                right.style.opacity = "0"
+            }
+            syncSelectorTimer = window.setTimeout(() => {
+                syncSelectionTransform(currentSelections)
+            }, selectionSyncTimeout)
+            return
+        } else {
+            lastSyncTime = currentSyncTime
+            syncSelectionTransform(currentSelections)
+        }
+    }
+
+
+    const toSelector = (element: HTMLDivElement): Selector => {
+        element.classList.add('selector')
+
+        const textCursor = document.createElement('div')
+        textCursor.classList.add('text-cursor')
+        element.appendChild(textCursor)
+
+        const bottomCursor = document.createElement('div')
+        bottomCursor.classList.add('bottom-cursor')
+        element.appendChild(bottomCursor)
+
+        const selector = element as Selector
+        selector.textCursor = textCursor
+        selector.bottomCursor = bottomCursor
+
+        return selector
+    }
+
+    let magnifier: HTMLDivElement | null = null
+    let magnifierContent: HTMLDivElement | null = null
+
+    // 拖动 selector 时在触点上方显示放大镜，内容为光标附近编辑器文本的实时拷贝
+    const showMagnifier = (position: IPosition, touch: ClientPoint) => {
+        const resolvedMagnifierOptions = resolveMagnifierOptions(magnifierOptions)
+        if (!resolvedMagnifierOptions) return
+        const {width, height, zoom, offset} = resolvedMagnifierOptions
+
+        const coords = editor.getScrolledVisiblePosition(position)
+        const scrollable = editorOverlayGuard.querySelector('.editor-scrollable')
+        if (!coords || !scrollable) return
+
+        if (!magnifier || !magnifierContent) {
+            magnifier = document.createElement('div')
+            magnifier.classList.add('monaco-editor-touch-magnifier')
+            syncThemeClass(magnifier)
+            magnifierContent = document.createElement('div')
+            magnifierContent.classList.add('magnifier-content')
+            magnifier.appendChild(magnifierContent)
+            element.append(magnifier)
+        }
+
+        magnifier.style.width = `${width}px`
+        magnifier.style.height = `${height}px`
+
+        magnifierContent.style.width = `${editorOverlayGuard.offsetWidth}px`
+        magnifierContent.style.height = `${editorOverlayGuard.offsetHeight}px`
+
+        const centerX = coords.left
+        const centerY = coords.top + coords.height / 2
+        const halfHeight = height / zoom / 2
+        magnifierContent.replaceChildren(cloneLinesAround(scrollable, centerY - halfHeight, centerY + halfHeight, lineHeight))
+        magnifierContent.style.transform = `translateX(${width / 2 - centerX * zoom}px) translateY(${height / 2 - centerY * zoom}px) scale(${zoom})`
+
+        const elementRect = element.getBoundingClientRect()
+        const x = touch.clientX - elementRect.left - width / 2
+        const y = touch.clientY - elementRect.top - height - offset
+        magnifier.style.transform = `translateX(${x}px) translateY(${y}px)`
+        magnifier.classList.add('show')
+    }
+
+    const hideMagnifier = () => {
+        if (!magnifier || !magnifierContent) return
+        magnifier.classList.remove('show')
+        magnifierContent.replaceChildren()
+    }
+
+    const syncSelectorStyle = (selector: Selector) => {
+        selector.textCursor.style.height = `${lineHeight}px`
+        selector.bottomCursor.style.marginTop = `${lineHeight}px`
+    }
+
+    // 统一 TouchEvent 与 PointerEvent 的按压过程，onStart 返回 handlers 时开始跟踪该次按压
+    const addPressListener = (
+        target: HTMLElement,
+        onStart: (point: ClientPoint, event: PressEvent) => PressHandlers | void
+    ): IDisposable => {
+        const trackPress = (
+            handlers: PressHandlers,
+            getPoint: (event: PressEvent) => ClientPoint | null,
+            types: { move: string, end: string, cancel: string }
+        ) => {
+            const pressDisposables: IDisposable[] = []
+            const cleanup = () => {
+                for (const disposable of pressDisposables) {
+                    disposable.dispose()
+                }
+                handlers.cleanup?.()
+                if (activeDragCleanup === cleanup) activeDragCleanup = null
+            }
+
+            const handleMove = (event: PressEvent) => {
+                const point = getPoint(event)
+                if (point) handlers.move?.(point, event)
+            }
+
+            const handleEnd = (event: PressEvent) => {
+                const point = getPoint(event)
+                if (!point) return
+                cleanup()
+                handlers.end?.(point, event)
+            }
+
+            // 被系统取消的按压只做清理，不作为一次完成的点击或拖动
+            const handleCancel = (event: PressEvent) => {
+                if (!getPoint(event)) return
+                cleanup()
+            }
+
+            activeDragCleanup?.()
+            activeDragCleanup = cleanup
+
+            // 编辑器可能位于 iframe 中，监听元素所在的 document
+            const targetDocument = target.ownerDocument
+            pressDisposables.push(
+                addDisposableListener(targetDocument, types.move, handleMove, {passive: false, capture: true}),
+                addDisposableListener(targetDocument, types.end, handleEnd),
+                addDisposableListener(targetDocument, types.cancel, handleCancel),
+            )
+        }
+
+        if (usePointerInput) {
+            return addDisposableListener(target, 'pointerdown', (event: PointerEvent) => {
+                if (!isPressEvent(event)) return
+                const handlers = onStart(event, event)
+                if (!handlers) return
+
+                // pen 没有隐式捕获，显式捕获以保证拖出元素后仍能收到事件
+                try {
+                    if (event.target instanceof Element) event.target.setPointerCapture(event.pointerId)
+                } catch {
+                    // onStart 可能已将目标元素移出文档，此时无法捕获，仍可通过 document 上的监听跟踪
+                }
+
+                trackPress(
+                    handlers,
+                    (e) => (e as PointerEvent).pointerId === event.pointerId ? e as PointerEvent : null,
+                    {move: 'pointermove', end: 'pointerup', cancel: 'pointercancel'}
+                )
+            })
+        }
+
+        return addDisposableListener(target, 'touchstart', (event: TouchEvent) => {
+            const handlers = onStart(event.changedTouches[0] ?? event.touches[0], event)
+            if (!handlers) return
+
+            trackPress(
+                handlers,
+                (e) => (e as TouchEvent).changedTouches[0] ?? (e as TouchEvent).touches[0] ?? null,
+                {move: 'touchmove', end: 'touchend', cancel: 'touchcancel'}
+            )
+        }, {passive: true})
+    }
+
+    // 开始拖动 selector。pointOffset 为触点到被拖动端点的偏移，
+    // 从边缘指示器开始拖动时，手指不在端点上，通过偏移使端点从原位置开始跟随手指移动
+    const startSelectorDrag = (
+        selectorPair: SelectorPair,
+        selector: Selector,
+        index: number,
+        startPoint: ClientPoint,
+        pointOffset: ClientPoint = {clientX: 0, clientY: 0}
+    ): PressHandlers | void => {
+        const initialSelections = editor.getSelections()
+        const initialSelection = initialSelections?.[index]
+        if (!initialSelections || !initialSelection) return
+
+        let touch = startPoint
+        const touchStartTime = Date.now()
+        const getDragPoint = (): ClientPoint => ({
+            clientX: touch.clientX + pointOffset.clientX,
+            clientY: touch.clientY + pointOffset.clientY,
+        })
+
+        const selectionIsEmpty = initialSelection.isEmpty()
+
+        // 未拖动时 left 位于选区开头，被拖动一端的对端作为 anchor
+        const draggingStart = selector === selectorPair.left
+        const anchor = draggingStart ? initialSelection.getEndPosition() : initialSelection.getStartPosition()
+        selectorDragging = true
+
+        let lastFiredSelection: Selection | null = null
+        const fireHandleDrag = (emitter: EventEmitter<HandleDragEvent>) => {
+            const selection = editor.getSelections()?.[index]
+            if (!selection) return
+            // move 事件只在选区变化时触发
+            if (emitter === handleDragMoveEmitter && lastFiredSelection?.equalsSelection(selection)) return
+            lastFiredSelection = selection
+            emitter.fire({handle: draggingStart ? 'start' : 'end', selectionIndex: index, selection})
+        }
+        fireHandleDrag(handleDragStartEmitter)
+
+        // 向外拖动时按粒度吸附，回拖（未超过曾到达的最远位置）时退回到字符精度
+        let furthestActive: IPosition | null = null
+        let lastSnappedActive: IPosition | null = null
+        const snapActive = (active: IPosition): IPosition => {
+            const model = editor.getModel()
+            if (granularity === 'character' || !model) return active
+
+            const forward = comparePositions(active, anchor) > 0
+            if (furthestActive && (comparePositions(furthestActive, anchor) > 0) !== forward) {
+                // 越过 anchor 后重新开始计算最远位置
+                furthestActive = null
+            }
+
+            const outward = !furthestActive || (forward ?
+                comparePositions(active, furthestActive) >= 0 :
+                comparePositions(active, furthestActive) <= 0)
+            if (!outward) return active
+            furthestActive = active
+
+            const snapped = snapPosition(model, active, granularity, forward)
+            if (haptics && lastSnappedActive && comparePositions(snapped, lastSnappedActive) !== 0) {
+                navigator.vibrate?.(HAPTIC_DURATION)
+            }
+            lastSnappedActive = snapped
+            return snapped
+        }
+
+        // 触点与滚动位置都没有变化时跳过，避免每帧重复设置选区与刷新放大镜
+        let lastFrameTouch: ClientPoint | null = null
+        let lastFrameScrollTop = -1
+        let lastFrameScrollLeft = -1
+
+        const autoScrollDisposable = startEdgeAutoScroll(editor, resolveAutoScrollOptions(autoScroll), getDragPoint, () => {
+            const scrollTop = editor.getScrollTop()
+            const scrollLeft = editor.getScrollLeft()
+            if (lastFrameTouch === touch && lastFrameScrollTop === scrollTop && lastFrameScrollLeft === scrollLeft) return
+            lastFrameTouch = touch
+            lastFrameScrollTop = scrollTop
+            lastFrameScrollLeft = scrollLeft
+
+            const dragPoint = getDragPoint()
+            const target = editor.getTargetAtClientPoint(dragPoint.clientX, dragPoint.clientY - lineHeight / 2)
+            if (target && target.position) {
+                if (initialSelections.length === 1 && selectionIsEmpty) {
+                    editor.setPosition(target.position)
+                } else {
+                    const active = selectionIsEmpty ? target.position : snapActive(target.position)
+                    if (!selectionIsEmpty) {
+                        // 越过 anchor 后交换两个 selector 的显示位置，被拖动的 selector 始终跟随手指
+                        const compareResult = comparePositions(active, anchor)
+                        selectorPair.flipped = draggingStart ? compareResult > 0 : compareResult < 0
+                    }
+                    const nextSelections: ISelection[] = [...initialSelections]
+                    nextSelections[index] = selectionIsEmpty ?
+                        createSelection(active, active) :
+                        createSelection(anchor, active)
+                    editor.setSelections(nextSelections)
+                }
+                showMagnifier(target.position, touch)
+                fireHandleDrag(handleDragMoveEmitter)
+            }
+        })
+
+        return {
+            move: (point, event) => {
+                event.preventDefault()
+                touch = point
+            },
+            end: (point, event) => {
+                if (Date.now() - touchStartTime > OPEN_MENU_TIMEOUT) {
+                    return
+                }
+
+                event.preventDefault()
+                touch = point
+
+                if (editor.getSelection() !== null) {
+                    showSelectionMenuByTouch(getDragPoint())
+                }
+            },
+            cleanup: () => {
+                autoScrollDisposable.dispose()
+                hideMagnifier()
+                selectorDragging = false
+
+                // 停止拖动后恢复 left 在前、right 在后，两者形状随位置交换，视觉上没有变化
+                if (selectorPair.flipped) {
+                    selectorPair.flipped = false
+                    const currentSelections = editor.getSelections()
+                    if (currentSelections) syncSelectionTransform(currentSelections)
+                }
+
+                fireHandleDrag(handleDragEndEmitter)
+            },
+        }
+    }
+
+    const setupSelectorTouchEvent = (
+        selectorPair: SelectorPair,
+        selector: Selector,
+        index: number,
+        pairDisposables: IDisposable[]
+    ) => {
+        pairDisposables.push(addPressListener(selector, (startPoint) => {
+            return startSelectorDrag(selectorPair, selector, index, startPoint)
+        }))
+    }
+
+    const setupTextCursorSelectWord = (
+        textSelector: HTMLDivElement,
+        index: number,
+        pairDisposables: IDisposable[]
+    ) => {
+        let lastTouchTime = 0
+
+        pairDisposables.push(addDisposableListener(textSelector, pressEventNames.start, (event) => {
+            if (!isPressEvent(event)) return
+            lastTouchTime = Date.now()
+        }, {passive: true}))
+
+        pairDisposables.push(addDisposableListener(textSelector, pressEventNames.end, (event) => {
+            if (!isPressEvent(event)) return
+            if (Date.now() - lastTouchTime > DBLCLICK_OPEN_MENU_TIMEOUT) {
+                return
+            }
+
+            const currentSelections = editor.getSelections()
+            const selection = currentSelections?.[index]
+            if (!currentSelections || !selection) return
+            if (selection.startColumn !== selection.endColumn || selection.startLineNumber !== selection.endLineNumber) return
+
+            const model = editor.getModel()
+            if (!model) return
+
+            const word = model.getWordAtPosition(selection.getStartPosition())
+            if (word) {
+                const nextSelections: ISelection[] = [...currentSelections]
+                nextSelections[index] = rangeToSelection({
+                    startLineNumber: selection.startLineNumber,
+                    startColumn: word.startColumn,
+                    endLineNumber: selection.endLineNumber,
+                    endColumn: word.endColumn,
+                })
+                editor.setSelections(nextSelections)
+                setTimeout(() => {
+                    editor.focus()
+                })
+            }
+        }, {passive: true}))
+    }
+
+    const createSelectorPair = (index: number): SelectorPair => {
+        const pairDisposables: IDisposable[] = []
+
+        const leftSelectorEl = document.createElement('div')
+        leftSelectorEl.classList.add('left')
+        const left = toSelector(leftSelectorEl)
+
+        const rightSelectorEl = document.createElement('div')
+        rightSelectorEl.classList.add('right')
+        const right = toSelector(rightSelectorEl)
+
+        syncSelectorStyle(left)
+        syncSelectorStyle(right)
+
+        const selectorPair: SelectorPair = {
+            left,
+            right,
+            flipped: false,
+            activeSelector: right,
+            dispose: () => {
+                for (const disposable of pairDisposables) {
+                    disposable.dispose()
+                }
+                left.remove()
+                right.remove()
+            }
+        }
+
+        setupSelectorTouchEvent(selectorPair, left, index, pairDisposables)
+        setupSelectorTouchEvent(selectorPair, right, index, pairDisposables)
+
+        setupTextCursorSelectWord(left.textCursor, index, pairDisposables)
+        setupTextCursorSelectWord(right.textCursor, index, pairDisposables)
+
+        return selectorPair
+    }
+
+    // 增减 selector 对，使其数量与当前选区数量一致
+    const syncSelectorPairCount = (count: number) => {
+        if (!selections) return
+        while (selectorPairs.length < count) {
+            const selectorPair = createSelectorPair(selectorPairs.length)
+            selections.append(selectorPair.left, selectorPair.right)
+            selectorPairs.push(selectorPair)
+        }
+        while (selectorPairs.length > count) {
+            selectorPairs.pop()?.dispose()
+        }
+    }
+
+    // 位置相对于编辑器可视区域的方向，可见时返回 null
+    const getOffscreenDirection = (position: IPosition): EdgeDirection | null => {
+        const {height, contentWidth, horizontalScrollbarHeight} = editor.getLayoutInfo()
+        const top = editor.getTopForPosition(position.lineNumber, position.column) - editor.getScrollTop()
+        if (top + lineHeight <= 0) return 'above'
+        if (top >= height - horizontalScrollbarHeight) return 'below'
+        const offset = editor.getOffsetForColumn(position.lineNumber, position.column)
+        if (offset < 0) return null
+        const left = offset - editor.getScrollLeft()
+        if (left < 0) return 'left'
+        if (left > contentWidth) return 'right'
+        return null
+    }
+
+    const syncSelectionIndicators = () => {
+        if (!selectionIndicators) return
+        indicatorTargets.clear()
+
+        const currentSelections = selectionsShow ? editor.getSelections() : null
+        currentSelections?.forEach((selection, index) => {
+            for (const isStart of selection.isEmpty() ? [true] : [true, false]) {
+                const position = isStart ? selection.getStartPosition() : selection.getEndPosition()
+                const direction = getOffscreenDirection(position)
+                if (!direction) continue
+                // 同一方向上保留离可视区域最近的端点
+                const existing = indicatorTargets.get(direction)
+                const backward = direction === 'above' || direction === 'left'
+                if (!existing || comparePositions(position, existing.position) * (backward ? 1 : -1) > 0) {
+                    indicatorTargets.set(direction, {index, position, isStart})
+                }
+            }
+        })
+
+        const {height, contentLeft, contentWidth, horizontalScrollbarHeight} = editor.getLayoutInfo()
+        const placements: Record<EdgeDirection, ClientPoint> = {
+            above: {clientX: contentLeft + contentWidth / 2, clientY: 0},
+            below: {clientX: contentLeft + contentWidth / 2, clientY: height - horizontalScrollbarHeight},
+            left: {clientX: contentLeft, clientY: height / 2},
+            right: {clientX: contentLeft + contentWidth, clientY: height / 2},
+        }
+        for (const direction of Object.keys(selectionIndicators) as EdgeDirection[]) {
+            const indicator = selectionIndicators[direction]
+            indicator.classList.toggle('show', indicatorTargets.has(direction))
+            indicator.style.left = `${placements[direction].clientX}px`
+            indicator.style.top = `${placements[direction].clientY}px`
+        }
+    }
+
+    // 点击指示器时将对应端点滚动到视图中央，手指不抬起可以继续拖动该端点
+    const setupSelectionIndicator = (indicator: HTMLDivElement, direction: EdgeDirection) => {
+        // 阻止 Monaco 的手势与编辑器上的文本手势处理这次按压
+        disposables.push(addDisposableListener(indicator, pressEventNames.start, (event) => {
+            event.stopPropagation()
+        }))
+
+        disposables.push(addPressListener(indicator, (startPoint) => {
+            const target = indicatorTargets.get(direction)
+            if (!target) return
+
+            editor.revealPositionInCenter(target.position, SCROLL_Immediate)
+            const currentSelections = editor.getSelections()
+            if (!currentSelections) return
+            syncSelectionTransform(currentSelections)
+
+            const selectorPair = selectorPairs[target.index]
+            const coords = editor.getScrolledVisiblePosition(target.position)
+            if (!selectorPair || !coords) return
+
+            hideSelectorMenu()
+            const elementRect = element.getBoundingClientRect()
+            return startSelectorDrag(
+                selectorPair,
+                target.isStart ? selectorPair.left : selectorPair.right,
+                target.index,
+                startPoint,
+                {
+                    clientX: elementRect.left + coords.left - startPoint.clientX,
+                    clientY: elementRect.top + coords.top + lineHeight - startPoint.clientY,
+                }
+            )
+        }))
+    }
+
+    const initSelectionIndicators = () => {
+        const createIndicator = (direction: EdgeDirection, arrow: string) => {
+            const indicator = document.createElement('div')
+            indicator.classList.add('monaco-editor-touch-selection-indicator', direction)
+            indicator.textContent = arrow
+            syncThemeClass(indicator)
+            setupSelectionIndicator(indicator, direction)
+            editorOverlayGuard.append(indicator)
+            return indicator
+        }
+
+        selectionIndicators = {
+            above: createIndicator('above', '\u25B2'),
+            below: createIndicator('below', '\u25BC'),
+            left: createIndicator('left', '\u25C0'),
+            right: createIndicator('right', '\u25B6'),
+        }
+    }
+
+    // 裁剪掉与 Monaco 自身控件重叠的部分，clip-path 同时作用于绘制与点击，被遮挡的 selector 不会抢占触摸。
+    // selections 容器随滚动平移，因此裁剪区域需要加上滚动距离
+    const syncSelectionsClip = () => {
+        if (!selections) return
+        const {left, top, right, bottom} = getHandleSafeArea()
+        const scrollTop = editor.getScrollTop()
+        const scrollLeft = editor.getScrollLeft()
+        const x0 = left + scrollLeft
+        const x1 = right + scrollLeft
+        const y0 = top + scrollTop
+        const y1 = bottom + scrollTop
+        selections.style.clipPath = `polygon(${x0}px ${y0}px, ${x1}px ${y0}px, ${x1}px ${y1}px, ${x0}px ${y1}px)`
+    }
+
+    const syncHandleTouchSize = () => {
+        if (!selections) return
+        if (handleTouchSize === undefined) {
+            selections.style.removeProperty('--monaco-editor_touch-selector_touch-size')
+        } else {
+            selections.style.setProperty('--monaco-editor_touch-selector_touch-size', `${handleTouchSize}px`)
+        }
+    }
+
+    const initSelections = () => {
+        selections = document.createElement('div')
+        selections.classList.add('monaco-editor-touch-selections')
+        syncThemeClass(selections)
+
+        const resyncSelectionTransform = () => {
+            syncSelectionsClip()
+            const currentSelections = editor.getSelections()
+            if (currentSelections) syncSelectionTransform(currentSelections)
+        }
+
+        disposables.push(editor.onDidChangeConfiguration((e) => {
+            if (e.hasChanged(OPTION_LineHeight)) {
+                lineHeight = editor.getOption(OPTION_LineHeight)
+                for (const {left, right} of selectorPairs) {
+                    syncSelectorStyle(left)
+                    syncSelectorStyle(right)
+                }
+            }
+            // 字号与行高变化后，selector 与菜单都需要跟随文本的新位置
+            if (e.hasChanged(OPTION_LineHeight) || e.hasChanged(OPTION_FontSize)) {
+                resyncSelectionTransform()
+                if (selectorMenuShow && menuAnchorPair && selectorPairs.includes(menuAnchorPair)) {
+                    placeSelectorMenuAtPair(menuAnchorPair)
+                }
+            }
+        }))
+
+        // 行号、glyph margin、折叠区域、自动换行以及 view zone 的变化都会改变 selector 的位置
+        disposables.push(
+            editor.onDidLayoutChange(resyncSelectionTransform),
+            editor.onDidContentSizeChange(resyncSelectionTransform),
+            editor.onDidChangeHiddenAreas(resyncSelectionTransform),
+        )
+
+        editorOverlayGuard.append(selections)
+        syncSelectionsClip()
+        syncHandleTouchSize()
+        disposables.push(editor.onDidScrollChange((e) => {
+            if (selections) {
+                selections.style.top = `-${e.scrollTop}px`
+                selections.style.left = `-${e.scrollLeft}px`
+            }
+            syncSelectionsClip()
+            // 未渲染的行滚动进入视图后才能取得横向位置
+            if (selectorPairs.some(({left, right}) => left.classList.contains('unplaced') || right.classList.contains('unplaced'))) {
+                resyncSelectionTransform()
+            } else {
+                syncSelectionIndicators()
+            }
+
+            // 菜单跟随选区滚动，停靠的一端离开视图时改为停靠在另一端
+            if (selectorMenuShow && menuAnchorPair && selectorPairs.includes(menuAnchorPair)) {
+                placeSelectorMenuAtPair(menuAnchorPair)
+            }
+        }))
+
+        const currentSelections = editor.getSelections()
+        if (currentSelections) debounceSyncSelectionTransform(currentSelections)
+    }
+
+    let cursorSyncTimer: number | undefined = undefined
+    disposables.push(editor.onDidChangeCursorSelection(() => {
+        hideSelectorMenu()
+        clearTimeout(cursorSyncTimer)
+        cursorSyncTimer = window.setTimeout(() => {
+            const currentSelections = editor.getSelections()
+            if (currentSelections) debounceSyncSelectionTransform(currentSelections)
+        }, 0)
+    }))
+
+    initSelectionIndicators()
+    initSelections()
+
+    // 选区会变化的 action 执行后重新打开菜单，其余 action 会打开 Monaco 自身的控件，因此关闭菜单
+    const createActionTool = (
+        name: CodeToolName,
+        actionId: string,
+        icon: string,
+        {keepMenu = false, editing = false}: { keepMenu?: boolean, editing?: boolean } = {}
+    ): SelectorMenuTool => ({
+        name,
+        label: menuMessages[name],
+        group: 'code',
+        innerHTML: toIconHTML(icon),
+        action: async () => {
+            const editorAction = editor.getAction(actionId)
+            if (!editorAction) return
+            if (!keepMenu) {
+                hideSelectorMenu()
+                hideSelections()
+            }
+            editor.focus()
+            await editorAction.run()
+            if (keepMenu) openMenu()
+        },
+        visible: ({readOnly}) => (!editing || !readOnly) && (editor.getAction(actionId)?.isSupported() ?? false),
+    })
+
+    const getCodeTools = () => new Map<CodeToolName, SelectorMenuTool>([
+        [CodeToolName.ExpandSelection, createActionTool(
+            CodeToolName.ExpandSelection,
+            'editor.action.smartSelect.expand',
+            '<path d="M16 4l4 0l0 4" /><path d="M14 10l6 -6" /><path d="M8 20l-4 0l0 -4" /><path d="M4 20l6 -6" />',
+            {keepMenu: true}
+        )],
+        [CodeToolName.ShrinkSelection, createActionTool(
+            CodeToolName.ShrinkSelection,
+            'editor.action.smartSelect.shrink',
+            '<path d="M5 9l4 0l0 -4" /><path d="M3 3l6 6" /><path d="M5 15l4 0l0 4" /><path d="M3 21l6 -6" /><path d="M19 9l-4 0l0 -4" /><path d="M15 9l6 -6" /><path d="M19 15l-4 0l0 4" /><path d="M15 15l6 6" />',
+            {keepMenu: true}
+        )],
+        [CodeToolName.ToggleLineComment, createActionTool(
+            CodeToolName.ToggleLineComment,
+            'editor.action.commentLine',
+            '<path d="M7 8l-4 4l4 4" /><path d="M17 8l4 4l-4 4" /><path d="M14 4l-4 16" />',
+            {keepMenu: true, editing: true}
+        )],
+        [CodeToolName.FormatSelection, createActionTool(
+            CodeToolName.FormatSelection,
+            'editor.action.formatSelection',
+            '<path d="M4 6l16 0" /><path d="M8 12l12 0" /><path d="M6 18l14 0" />',
+            {keepMenu: true, editing: true}
+        )],
+        [CodeToolName.Rename, createActionTool(
+            CodeToolName.Rename,
+            'editor.action.rename',
+            '<path d="M4 20h4l10.5 -10.5a2.828 2.828 0 1 0 -4 -4l-10.5 10.5v4" /><path d="M13.5 6.5l4 4" />',
+            {editing: true}
+        )],
+        [CodeToolName.GoToDefinition, createActionTool(
+            CodeToolName.GoToDefinition,
+            'editor.action.revealDefinition',
+            '<path d="M5 12l14 0" /><path d="M13 18l6 -6" /><path d="M13 6l6 6" />'
+        )],
+        [CodeToolName.FindReferences, createActionTool(
+            CodeToolName.FindReferences,
+            'editor.action.referenceSearch.trigger',
+            '<path d="M10 10m-7 0a7 7 0 1 0 14 0a7 7 0 1 0 -14 0" /><path d="M21 21l-6 -6" /><path d="M7 10l6 0" />'
+        )],
+        [CodeToolName.QuickFix, createActionTool(
+            CodeToolName.QuickFix,
+            'editor.action.quickFix',
+            '<path d="M3 12h1m8 -9v1m8 8h1m-15.4 -6.4l.7 .7m12.1 -.7l-.7 .7" /><path d="M9 16a5 5 0 1 1 6 0a3.5 3.5 0 0 0 -1 3a2 2 0 0 1 -4 0a3.5 3.5 0 0 0 -1 -3" /><path d="M9.7 17l4.6 0" />',
+            {editing: true}
+        )],
+        [CodeToolName.FindSelection, createActionTool(
+            CodeToolName.FindSelection,
+            'actions.findWithSelection',
+            '<path d="M10 10m-7 0a7 7 0 1 0 14 0a7 7 0 1 0 -14 0" /><path d="M21 21l-6 -6" />'
+        )],
+    ])
+
+    const getMenuTools = (
+        selectorMenu: HTMLDivElement
+    ): Iterable<SelectorMenuTool> => {
+        const defaultTools = new Map<DefaultToolName, SelectorMenuTool>([
+            [DefaultToolName.Copy, {
+                name: 'copy',
+                label: menuMessages[DefaultToolName.Copy],
+                innerHTML: `
+<svg
+    xmlns="http://www.w3.org/2000/svg"
+    class="icon"
+    viewBox="0 0 24 24"
+    stroke-linecap="round"
+    stroke-linejoin="round"
+    style="fill: none;"
+>
+    <path d="M 5 8 m 0 2 a 2 2 0 0 1 2 -2 h 8 a 2 2 0 0 1 2 2 v 8 a 2 2 0 0 1 -2 2 h -8 a 2 2 0 0 1 -2 -2 z M 9 6 a 2 2 0 0 1 2 -2 h 8 a 2 2 0 0 1 2 2 v 8 a 2 2 0 0 1 -2 2"/>
+</svg>`,
+                action: async () => {
+                    const result = await copy()
+                    if (result) hideSelectorMenu()
+                },
+                visible: ({selectionIsEmpty}) => !selectionIsEmpty,
+                enabled: ({clipboardAvailable}) => clipboardAvailable,
+            }],
+            [DefaultToolName.Cut, {
+                name: 'cut',
+                label: menuMessages[DefaultToolName.Cut],
+                innerHTML: `
+<svg
+    xmlns="http://www.w3.org/2000/svg"
+    class="icon"
+    viewBox="0 0 24 24"
+    stroke-linecap="round"
+    stroke-linejoin="round"
+    style="fill: none;"
 >
     <path d="M7 17m-3 0a3 3 0 1 0 6 0a3 3 0 1 0 -6 0" />
     <path d="M17 17m-3 0a3 3 0 1 0 6 0a3 3 0 1 0 -6 0" />
@@ -600,10 +2484,13 @@ export const editorTouchSelectionHelp = (
                 action: async () => {
                     const result = await cut()
                     if (result) hideSelectorMenu()
-                }
+                },
+                visible: ({selectionIsEmpty, readOnly}) => !selectionIsEmpty && !readOnly,
+                enabled: ({clipboardAvailable}) => clipboardAvailable,
             }],
             [DefaultToolName.Paste, {
                 name: 'paste',
+                label: menuMessages[DefaultToolName.Paste],
                 innerHTML: `
 <svg
     xmlns="http://www.w3.org/2000/svg"
@@ -620,10 +2507,13 @@ export const editorTouchSelectionHelp = (
                 action: async () => {
                     const result = await paste()
                     if (result) hideSelectorMenu()
-                }
+                },
+                visible: ({readOnly}) => !readOnly,
+                enabled: ({clipboardAvailable}) => clipboardAvailable,
             }],
             [DefaultToolName.Undo, {
                 name: 'undo',
+                label: menuMessages[DefaultToolName.Undo],
                 innerHTML: `
 <svg
     xmlns="http://www.w3.org/2000/svg"
@@ -639,10 +2529,12 @@ export const editorTouchSelectionHelp = (
                 action: () => {
                     undo()
                     showSelectorMenu()
-                }
+                },
+                visible: ({readOnly}) => !readOnly,
             }],
             [DefaultToolName.Redo, {
                 name: 'redo',
+                label: menuMessages[DefaultToolName.Redo],
                 innerHTML: `
 <svg
     xmlns="http://www.w3.org/2000/svg"
@@ -658,10 +2550,12 @@ export const editorTouchSelectionHelp = (
                 action: () => {
                     redo()
                     showSelectorMenu()
-                }
+                },
+                visible: ({readOnly}) => !readOnly,
             }],
             [DefaultToolName.SelectAll, {
                 name: 'select all',
+                label: menuMessages[DefaultToolName.SelectAll],
                 innerHTML: `
 <svg
     xmlns="http://www.w3.org/2000/svg"
@@ -680,6 +2574,7 @@ export const editorTouchSelectionHelp = (
             }],
             [DefaultToolName.Close, {
                 name: 'close',
+                label: menuMessages[DefaultToolName.Close],
                 innerHTML: `
 <svg
     xmlns="http://www.w3.org/2000/svg"
@@ -694,86 +2589,1639 @@ export const editorTouchSelectionHelp = (
 </svg>`,
                 action: () => {
                     hideSelectorMenu()
-                    return true
-                }
-            }]
-        ])
+                    return true
+                }
+            }]
+        ])
+
+        if (tools === undefined) {
+            return defaultTools.values()
+        }
+
+        if (typeof tools === 'function') {
+            const result = tools({
+                editor,
+                selectorMenu,
+                defaultTools,
+                codeTools: getCodeTools(),
+                openMenu,
+                closeMenu: hideSelectorMenu,
+            })
+            if (result === undefined) {
+                return defaultTools.values()
+            }
+            return result
+        }
+
+        return defaultTools.values()
+    }
+
+    const fillMenuItemElement = (menuItemElement: HTMLElement, menuTool: SelectorMenuTool, showLabel: boolean) => {
+        if (typeof menuTool.innerHTML === 'function') {
+            const result = menuTool.innerHTML()
+            if (typeof result === 'string') menuItemElement.innerHTML = result
+            else menuItemElement.appendChild(result)
+        } else {
+            // 同一个工具可能同时出现在菜单与子菜单中，复制节点以免从菜单中移走
+            if (typeof menuTool.innerHTML === 'string') menuItemElement.innerHTML = menuTool.innerHTML
+            else menuItemElement.appendChild(menuTool.innerHTML.cloneNode(true))
+        }
+
+        const label = getToolLabel(menuTool)
+        menuItemElement.setAttribute('aria-label', label)
+        menuItemElement.tabIndex = -1
+        if (toolLabels === 'tooltip') menuItemElement.title = label
+        if (showLabel) {
+            const labelElement = document.createElement('span')
+            labelElement.classList.add('label')
+            labelElement.textContent = label
+            menuItemElement.appendChild(labelElement)
+        }
+    }
+
+    const isFocusInMenu = () => {
+        const activeElement = getDeepActiveElement(getMenuDocument())
+        if (!activeElement) return false
+        return !!selectorMenu?.contains(activeElement) || !!selectorSubmenu?.contains(activeElement)
+    }
+
+    const getFocusableMenuItems = (menuElement: HTMLElement) => {
+        return [...menuElement.querySelectorAll<HTMLElement>('.menu-item')]
+            .filter(item => !item.classList.contains('hidden') && !item.classList.contains('overflow'))
+    }
+
+    // 工具栏使用 roving tabindex，只有当前项可以通过 Tab 获得焦点
+    const focusMenuItem = (menuElement: HTMLElement, index: number) => {
+        const items = getFocusableMenuItems(menuElement)
+        if (items.length === 0) return
+        const target = items[(index + items.length) % items.length]
+        for (const item of items) item.tabIndex = item === target ? 0 : -1
+        target.focus()
+    }
+
+    const focusSelectorMenu = () => {
+        if (!selectorMenu || !selectorMenuShow) return
+        focusMenuItem(selectorMenu, 0)
+    }
+
+    // 方向键在菜单项之间移动焦点，Escape 关闭菜单并将焦点还给编辑器
+    const setupMenuKeyboard = (menuElement: HTMLElement, prevKey: string, nextKey: string, onEscape: () => void) => {
+        menuElement.addEventListener('keydown', (event) => {
+            const items = getFocusableMenuItems(menuElement)
+            const index = items.indexOf(getDeepActiveElement(getMenuDocument()) as HTMLElement)
+            switch (event.key) {
+                case prevKey:
+                    focusMenuItem(menuElement, index - 1)
+                    break
+                case nextKey:
+                    focusMenuItem(menuElement, index + 1)
+                    break
+                case 'Home':
+                    focusMenuItem(menuElement, 0)
+                    break
+                case 'End':
+                    focusMenuItem(menuElement, -1)
+                    break
+                case 'Escape':
+                    onEscape()
+                    break
+                default:
+                    return
+            }
+            event.preventDefault()
+            event.stopPropagation()
+        })
+
+        // 焦点离开菜单且没有回到编辑器时关闭菜单，延迟检查以忽略子菜单重新渲染造成的焦点丢失
+        menuElement.addEventListener('focusout', () => {
+            setTimeout(() => {
+                if (disposed || !selectorMenuShow) return
+                if (isFocusInMenu() || element.contains(getDeepActiveElement(element.ownerDocument))) return
+                hideSelections()
+                hideSelectorMenu()
+            })
+        })
+    }
+
+    // 同时响应触摸和键盘的 Enter / 空格
+    const addMenuItemActivateListener = (menuItemElement: HTMLElement, activate: () => Promise<void> | void) => {
+        menuItemElement.addEventListener(pressEventNames.end, () => {
+            void activate()
+        })
+        menuItemElement.addEventListener('keydown', async (event) => {
+            if (event.key !== 'Enter' && event.key !== ' ') return
+            event.preventDefault()
+            event.stopPropagation()
+            await activate()
+            if (selectorSubmenu?.classList.contains('show')) {
+                focusMenuItem(selectorSubmenu, 0)
+            } else if (!selectorMenuShow) {
+                editor.focus()
+            } else if (!isFocusInMenu()) {
+                focusSelectorMenu()
+            }
+        })
+    }
+
+    // 阻止菜单上的默认触摸行为，避免焦点离开编辑器导致菜单关闭
+    const preventMenuDefault = (menuElement: HTMLElement) => {
+        menuElement.addEventListener('touchstart', (event) => {
+            event.preventDefault()
+        }, {passive: false})
+
+        menuElement.addEventListener('touchmove', (event) => {
+            event.preventDefault()
+        }, {passive: false})
+
+        menuElement.addEventListener('touchend', (event) => {
+            event.preventDefault()
+        }, {passive: false})
+
+        if (usePointerInput) {
+            menuElement.addEventListener('pointerdown', (event) => {
+                event.preventDefault()
+            })
+        }
+    }
+
+    // 返回 false 表示 action 被 onBeforeToolAction 的监听者取消
+    const runMenuTool = async (menuTool: SelectorMenuTool): Promise<boolean> => {
+        let cancelled = false
+        beforeToolActionEmitter.fire({
+            tool: menuTool,
+            cancel: () => {
+                cancelled = true
+            },
+        })
+        if (cancelled) return false
+
+        try {
+            await menuTool.action()
+            toolActionCompleteEmitter.fire({tool: menuTool})
+        } catch (e) {
+            await handleToolActionError(menuTool.name, e, getToolLabel(menuTool))
+            toolActionCompleteEmitter.fire({tool: menuTool, error: e})
+        }
+        return true
+    }
+
+    // 子菜单，用于显示溢出的工具以及带有 children 的工具，通过栈实现多级嵌套
+    let selectorSubmenu: HTMLDivElement | null = null
+    let selectorSubmenuStack: SelectorMenuTool[][] = []
+
+    const hideSelectorSubmenu = () => {
+        selectorSubmenuStack = []
+        selectorMenuMoreItem?.setAttribute('aria-expanded', 'false')
+        if (!selectorSubmenu) return
+        selectorSubmenu.classList.remove('show')
+        selectorSubmenu.replaceChildren()
+    }
+
+    const placeSelectorSubmenu = () => {
+        if (!selectorMenu || !selectorSubmenu) return
+
+        const menuRect = selectorMenu.getBoundingClientRect()
+        const submenuRect = selectorSubmenu.getBoundingClientRect()
+
+        const viewport = getViewportRect(getMenuDocument())
+
+        let x = menuRect.right - submenuRect.width
+        if (x < viewport.left) x = viewport.left
+        else if (x + submenuRect.width > viewport.left + viewport.width) x = viewport.left + viewport.width - submenuRect.width
+
+        // 优先显示在菜单下方，空间不足时显示在上方
+        let y = menuRect.bottom
+        if (y + submenuRect.height > viewport.top + viewport.height) y = menuRect.top - submenuRect.height
+        if (y < viewport.top) y = viewport.top
+
+        placeMenuElement(selectorSubmenu, x, y)
+    }
+
+    const renderSelectorSubmenu = () => {
+        const submenuTools = selectorSubmenuStack[selectorSubmenuStack.length - 1]
+        if (!submenuTools) {
+            hideSelectorSubmenu()
+            return
+        }
+
+        if (!selectorSubmenu) {
+            claimMenuElements()
+            selectorSubmenu = document.createElement('div')
+            selectorSubmenu.classList.add('monaco-editor-touch-selector-submenu')
+            syncThemeClass(selectorSubmenu)
+            selectorSubmenu.setAttribute('role', 'menu')
+            selectorSubmenu.setAttribute('aria-orientation', 'vertical')
+            preventMenuDefault(selectorSubmenu)
+            setupMenuKeyboard(selectorSubmenu, 'ArrowUp', 'ArrowDown', () => {
+                if (selectorSubmenuStack.length > 1) {
+                    selectorSubmenuStack.pop()
+                    renderSelectorSubmenu()
+                    if (selectorSubmenu) focusMenuItem(selectorSubmenu, 0)
+                } else {
+                    hideSelectorSubmenu()
+                    focusSelectorMenu()
+                }
+            })
+            selectorMenuContainer.append(selectorSubmenu)
+        }
+        selectorSubmenu.replaceChildren()
+
+        if (selectorSubmenuStack.length > 1) {
+            const backItemElement = document.createElement('div')
+            backItemElement.classList.add('menu-item', 'back')
+            backItemElement.setAttribute('role', 'menuitem')
+            backItemElement.setAttribute('aria-label', menuMessages.back)
+            backItemElement.tabIndex = -1
+            backItemElement.innerHTML = BACK_ICON
+            addMenuItemActivateListener(backItemElement, () => {
+                selectorSubmenuStack.pop()
+                renderSelectorSubmenu()
+            })
+            selectorSubmenu.appendChild(backItemElement)
+        }
+
+        const context = getMenuToolContext()
+        let lastGroup: string | undefined = undefined
+        let first = true
+        for (const menuTool of submenuTools) {
+            if (!(menuTool.visible?.(context) ?? true)) continue
+            const enabled = menuTool.enabled?.(context) ?? true
+
+            const menuItemElement = document.createElement('div')
+            menuItemElement.classList.add('menu-item')
+            menuItemElement.classList.toggle('disabled', !enabled)
+            menuItemElement.classList.toggle('separated', !first && menuTool.group !== lastGroup)
+            menuItemElement.setAttribute('role', 'menuitem')
+            menuItemElement.setAttribute('aria-disabled', String(!enabled))
+            fillMenuItemElement(menuItemElement, menuTool, true)
+
+            if (menuTool.children) {
+                menuItemElement.classList.add('has-children')
+                menuItemElement.setAttribute('aria-haspopup', 'menu')
+            }
+
+            addMenuItemActivateListener(menuItemElement, async () => {
+                if (!enabled) return
+                if (!await runMenuTool(menuTool)) return
+                if (menuTool.children) {
+                    selectorSubmenuStack.push([...menuTool.children])
+                    renderSelectorSubmenu()
+                } else {
+                    hideSelectorSubmenu()
+                }
+            })
+
+            selectorSubmenu.appendChild(menuItemElement)
+            lastGroup = menuTool.group
+            first = false
+        }
+
+        selectorSubmenu.classList.add('show')
+        placeSelectorSubmenu()
+    }
+
+    const openSelectorSubmenu = (submenuTools: SelectorMenuTool[]) => {
+        selectorSubmenuStack = [submenuTools]
+        renderSelectorSubmenu()
+    }
+
+    let selectorMenuMoreItem: HTMLDivElement | null = null
+
+    // 菜单宽度超过编辑器时，将末尾的工具移入 “更多” 子菜单，并在分组之间显示分隔线
+    const layoutSelectorMenu = () => {
+        if (!selectorMenu || !selectorMenuMoreItem) return
+
+        for (const item of selectorMenuItems) {
+            item.element.classList.remove('overflow', 'separated')
+        }
+        selectorMenuMoreItem.classList.add('hidden')
+
+        const visibleItems = selectorMenuItems.filter(item => !item.element.classList.contains('hidden'))
+        const maxWidth = element.getBoundingClientRect().width
+        const isOverflow = () => {
+            if (!selectorMenu) return false
+            return selectorMenu.scrollWidth > selectorMenu.clientWidth || selectorMenu.offsetWidth > maxWidth
+        }
+
+        if (isOverflow()) {
+            selectorMenuMoreItem.classList.remove('hidden')
+            for (let i = visibleItems.length - 1; i > 0 && isOverflow(); i--) {
+                visibleItems[i].element.classList.add('overflow')
+            }
+        }
+
+        let lastGroup: string | undefined = undefined
+        let first = true
+        for (const item of visibleItems) {
+            if (item.element.classList.contains('overflow')) continue
+            item.element.classList.toggle('separated', !first && item.tool.group !== lastGroup)
+            lastGroup = item.tool.group
+            first = false
+        }
+
+        if (!isFocusInMenu()) {
+            getFocusableMenuItems(selectorMenu).forEach((item, index) => {
+                item.tabIndex = index === 0 ? 0 : -1
+            })
+        }
+    }
+
+    const createSelectorMenuItem = (menuTool: SelectorMenuTool, classified: boolean) => {
+        const menuItemElement = document.createElement('div')
+        menuItemElement.classList.add('menu-item')
+        menuItemElement.setAttribute('role', 'button')
+        fillMenuItemElement(menuItemElement, menuTool, toolLabels === 'text')
+        if (menuTool.children) menuItemElement.setAttribute('aria-haspopup', 'menu')
+
+        const menuItem = {tool: menuTool, element: menuItemElement, enabled: true, classified}
+
+        addMenuItemActivateListener(menuItemElement, async () => {
+            if (!menuItem.enabled) return
+            if (!await runMenuTool(menuTool)) return
+            if (menuTool.children) {
+                openSelectorSubmenu([...menuTool.children])
+            }
+        })
+
+        return menuItem
+    }
+
+    // 只对单个非空选区进行分类
+    const getSelectionClassifierContext = (): SelectionClassifierContext | null => {
+        const model = editor.getModel()
+        const currentSelections = editor.getSelections()
+        if (!model || !currentSelections || currentSelections.length !== 1) return null
+        const selection = currentSelections[0]
+        if (selection.isEmpty()) return null
+        if (model.getValueLengthInRange(selection) > MAX_CLASSIFY_TEXT_LENGTH) return null
+        return {
+            editor,
+            text: model.getValueInRange(selection),
+            languageId: model.getLanguageId(),
+            selection,
+            messages: menuMessages,
+            clipboard,
+            openMenu,
+            closeMenu: hideSelectorMenu,
+        }
+    }
+
+    // 选区、内容、语言或注册表变化时，重新收集 selection classifier 提供的工具并追加到菜单末尾
+    let classifiedToolsKey: string | null = null
+    const syncClassifiedTools = () => {
+        if (!selectorMenu || !selectorMenuMoreItem) return
+        const model = editor.getModel()
+        const context = selectionClassifiers ? getSelectionClassifierContext() : null
+        const key = context && model ?
+            [selectionClassifierRegistryVersion, model.id, model.getVersionId(), context.languageId, context.selection.toString()].join(':') :
+            null
+        if (key === classifiedToolsKey) return
+        classifiedToolsKey = key
+
+        selectorMenuItems = selectorMenuItems.filter(item => {
+            if (item.classified) item.element.remove()
+            return !item.classified
+        })
+        if (!context) return
+
+        for (const classifier of selectionClassifierRegistry.values()) {
+            let classifiedTools: SelectorMenuTool[] | undefined
+            try {
+                classifiedTools = classifier.classify(context)
+            } catch (e) {
+                // 菜单正在打开，不等待错误处理；处理函数自身出错时退回默认处理，避免未处理的 rejection
+                Promise.resolve()
+                    .then(() => toolActionErrorHandler(classifier.id, e))
+                    .catch((error) => defaultToolActionErrorHandler(classifier.id, error))
+                continue
+            }
+            for (const menuTool of classifiedTools ?? []) {
+                const menuItem = createSelectorMenuItem(menuTool, true)
+                selectorMenuItems.push(menuItem)
+                selectorMenu.insertBefore(menuItem.element, selectorMenuMoreItem)
+            }
+        }
+    }
+
+    const initSelectorMenu = () => {
+        claimMenuElements()
+        selectorMenu = document.createElement('div')
+        selectorMenu.classList.add('monaco-editor-touch-selector-menu')
+        selectorMenu.classList.toggle('labeled', toolLabels === 'text')
+        syncThemeClass(selectorMenu)
+        selectorMenu.setAttribute('role', 'toolbar')
+        selectorMenu.setAttribute('aria-label', menuMessages.menu)
+        selectorMenu.setAttribute('aria-orientation', 'horizontal')
+        selectorMenuItems = []
+
+        classifiedToolsKey = null
+
+        for (const menuTool of getMenuTools(selectorMenu)) {
+            const menuItem = createSelectorMenuItem(menuTool, false)
+            selectorMenuItems.push(menuItem)
+            selectorMenu.appendChild(menuItem.element)
+        }
+
+        selectorMenuMoreItem = document.createElement('div')
+        selectorMenuMoreItem.classList.add('menu-item', 'more', 'hidden')
+        selectorMenuMoreItem.setAttribute('role', 'button')
+        selectorMenuMoreItem.setAttribute('aria-label', menuMessages.more)
+        selectorMenuMoreItem.setAttribute('aria-haspopup', 'menu')
+        selectorMenuMoreItem.tabIndex = -1
+        if (toolLabels === 'tooltip') selectorMenuMoreItem.title = menuMessages.more
+        selectorMenuMoreItem.innerHTML = MORE_ICON
+        addMenuItemActivateListener(selectorMenuMoreItem, () => {
+            if (selectorSubmenuStack.length > 0) {
+                hideSelectorSubmenu()
+                return
+            }
+            openSelectorSubmenu(
+                selectorMenuItems
+                    .filter(item => item.element.classList.contains('overflow'))
+                    .map(item => item.tool)
+            )
+            selectorMenuMoreItem?.setAttribute('aria-expanded', 'true')
+        })
+        selectorMenu.appendChild(selectorMenuMoreItem)
+
+        preventMenuDefault(selectorMenu)
+        setupMenuKeyboard(selectorMenu, 'ArrowLeft', 'ArrowRight', () => {
+            hideSelectorMenu()
+            editor.focus()
+        })
+
+        selectorMenuContainer.append(selectorMenu)
+    }
+
+    const getWordRangeAtPosition = (position: IPosition): IRange | null => {
+        const word = editor.getModel()?.getWordAtPosition(position)
+        if (!word) return null
+        return {
+            startLineNumber: position.lineNumber,
+            startColumn: word.startColumn,
+            endLineNumber: position.lineNumber,
+            endColumn: word.endColumn,
+        }
+    }
+
+    // 与 Monaco 三击一致，选中整行并包含行尾换行符
+    const getLineRangeAtPosition = (position: IPosition): IRange | null => {
+        const model = editor.getModel()
+        if (!model) return null
+        if (position.lineNumber < model.getLineCount()) {
+            return {
+                startLineNumber: position.lineNumber,
+                startColumn: 1,
+                endLineNumber: position.lineNumber + 1,
+                endColumn: 1,
+            }
+        }
+        return {
+            startLineNumber: position.lineNumber,
+            startColumn: 1,
+            endLineNumber: position.lineNumber,
+            endColumn: model.getLineMaxColumn(position.lineNumber),
+        }
+    }
+
+    const openMenuByTouch = (touch: ClientPoint) => {
+        const currentSelections = editor.getSelections()
+        if (!currentSelections) return
+        showSelections()
+        syncSelectionTransform(currentSelections)
+        showSelectionMenuByTouch(touch)
+    }
+
+    const getContentPositionAtTouch = (touch: ClientPoint): IPosition | null => {
+        const target = editor.getTargetAtClientPoint(touch.clientX, touch.clientY)
+        if (!target || !target.position) return null
+        if (target.type !== TARGET_ContentText && target.type !== TARGET_ContentEmpty) return null
+        return target.position
+    }
+
+    // 长按位置所在的非空选区，只读或未开启 textDrag 时返回 -1
+    const getDraggableSelectionIndex = (position: IPosition): number => {
+        if (!textDrag || editor.getOption(OPTION_ReadOnly)) return -1
+        const currentSelections = editor.getSelections() ?? []
+        return currentSelections.findIndex(selection => !selection.isEmpty() && selection.containsPosition(position))
+    }
+
+    // 将选区中的文本移动或复制到 position，删除与插入在同一次 executeEdits 中完成，撤销时一步恢复
+    const dropSelectedText = (selection: Selection, position: IPosition, copy: boolean) => {
+        const model = editor.getModel()
+        if (!model) return
+
+        const text = model.getValueInRange(selection)
+        const startOffset = model.getOffsetAt(selection.getStartPosition())
+        const endOffset = model.getOffsetAt(selection.getEndPosition())
+        const dropOffset = model.getOffsetAt(position)
+        // 移动到选区之后时，删除原有文本会使落点前移
+        const insertOffset = !copy && dropOffset > endOffset ? dropOffset - (endOffset - startOffset) : dropOffset
+
+        const edits = [{range: positionToRange(position), text}]
+        if (!copy) edits.unshift({range: selection, text: ''})
+        editor.pushUndoStop()
+        editor.executeEdits('touch-selection.drop', edits)
+        editor.pushUndoStop()
+
+        editor.setSelection(createSelection(
+            model.getPositionAt(insertOffset),
+            model.getPositionAt(insertOffset + text.length)
+        ))
+    }
+
+    // 拖动选中的文本，显示落点光标并在边缘自动滚动，松开时放下文本
+    const startTextDrag = (selectionIndex: number, startPoint: ClientPoint): PressHandlers | void => {
+        const options = resolveTextDragOptions(textDrag)
+        const selection = editor.getSelections()?.[selectionIndex]
+        if (!options || !selection) return
+
+        let touch = startPoint
+        let dropPosition: IPosition | null = null
+
+        hideSelectorMenu()
+        hideSelections()
+        if (haptics) navigator.vibrate?.(HAPTIC_DURATION)
+
+        const dropCaret = document.createElement('div')
+        dropCaret.classList.add('monaco-editor-touch-selection-drop-caret')
+        syncThemeClass(dropCaret)
+        editorOverlayGuard.append(dropCaret)
+
+        // 移动时落在选区内部（包括两端）没有意义，视为无效落点
+        const canDropAt = (position: IPosition) => {
+            if (options.copy) return true
+            return comparePositions(position, selection.getStartPosition()) < 0 ||
+                comparePositions(position, selection.getEndPosition()) > 0
+        }
+
+        const syncDropCaret = () => {
+            const position = getContentPositionAtTouch(touch)
+            if (position) dropPosition = position
+
+            const visiblePosition = dropPosition && canDropAt(dropPosition) ?
+                editor.getScrolledVisiblePosition(dropPosition) :
+                null
+            dropCaret.classList.toggle('show', visiblePosition !== null)
+            if (!visiblePosition) return
+            dropCaret.style.height = `${visiblePosition.height}px`
+            dropCaret.style.transform = `translate(${visiblePosition.left}px, ${visiblePosition.top}px)`
+        }
+        syncDropCaret()
+
+        const autoScrollDisposable = startEdgeAutoScroll(editor, resolveAutoScrollOptions(autoScroll), () => touch, syncDropCaret)
+
+        return {
+            move: (point, event) => {
+                event.preventDefault()
+                touch = point
+            },
+            end: (point) => {
+                touch = point
+                syncDropCaret()
+                if (dropPosition && canDropAt(dropPosition)) {
+                    dropSelectedText(selection, dropPosition, options.copy)
+                }
+                openMenuByTouch(touch)
+            },
+            cleanup: () => {
+                autoScrollDisposable.dispose()
+                dropCaret.remove()
+            },
+        }
+    }
+
+    // 在文本内容上的长按、双击、三击手势
+    const setupTextGestures = () => {
+        let tapCount = 0
+        let lastTapTime = 0
+        let lastTapPoint: ClientPoint = {clientX: 0, clientY: 0}
+        let longPressTriggered = false
+        let longPressDragging = false
+
+        disposables.push(addPressListener(element, (startTouch, event) => {
+            longPressTriggered = false
+            if (isMultiPress(event)) return
+            if (selections && event.target instanceof Node && selections.contains(event.target)) return
+            // 触控板模式（包括继续扩展选区的按压与长按 longPressArea）优先
+            if (trackpadSession || isTrackpadAreaPoint(startTouch)) return
+
+            const startPosition = getContentPositionAtTouch(startTouch)
+            if (!startPosition) return
+
+            const touchStartTime = Date.now()
+            let touch: ClientPoint = startTouch
+            let moved = false
+            let anchor: IRange | null = null
+            // 长按开始于选区内时拖动选中的文本
+            let textDragHandlers: PressHandlers | null = null
+
+            const longPressTimer = window.setTimeout(() => {
+                if (trackpadSession) return
+                longPressTriggered = true
+                longPressDragging = true
+                const selectionIndex = getDraggableSelectionIndex(startPosition)
+                if (selectionIndex !== -1) {
+                    textDragHandlers = startTextDrag(selectionIndex, touch) ?? null
+                    if (textDragHandlers) return
+                }
+                anchor = getWordRangeAtPosition(startPosition) ?? positionToRange(startPosition)
+                editor.setSelection(anchor)
+                openMenuByTouch(touch)
+            }, LONG_PRESS_TIMEOUT)
+
+            return {
+                move: (point, event) => {
+                    touch = point
+
+                    if (!longPressTriggered) {
+                        if (getDistance(touch, startTouch) > TAP_MOVE_TOLERANCE) {
+                            moved = true
+                            clearTimeout(longPressTimer)
+                        }
+                        return
+                    }
+
+                    if (textDragHandlers) {
+                        textDragHandlers.move?.(point, event)
+                        return
+                    }
+
+                    // 长按后拖动扩展选区
+                    event.preventDefault()
+                    hideSelectorMenu()
 
-        if (tools === undefined) {
-            return defaultTools.values()
+                    const target = editor.getTargetAtClientPoint(touch.clientX, touch.clientY)
+                    if (anchor && target && target.position) {
+                        editor.setSelection(extendRange(anchor, target.position))
+                    }
+                },
+                end: (point, endEvent) => {
+                    touch = point
+
+                    if (textDragHandlers) {
+                        textDragHandlers.end?.(point, endEvent)
+                        return
+                    }
+
+                    if (longPressTriggered) {
+                        openMenuByTouch(touch)
+                        return
+                    }
+
+                    if (moved || Date.now() - touchStartTime > LONG_PRESS_TIMEOUT) {
+                        tapCount = 0
+                        return
+                    }
+
+                    const tapTime = Date.now()
+                    if (tapTime - lastTapTime < MULTI_TAP_TIMEOUT && getDistance(touch, lastTapPoint) <= TAP_MOVE_TOLERANCE) {
+                        tapCount++
+                    } else {
+                        tapCount = 1
+                    }
+                    lastTapTime = tapTime
+                    lastTapPoint = touch
+
+                    if (tapCount < 2) return
+
+                    const range = tapCount === 2 ?
+                        getWordRangeAtPosition(startPosition) :
+                        getLineRangeAtPosition(startPosition)
+                    if (tapCount >= 3) tapCount = 0
+                    if (!range) return
+
+                    // 等待 Monaco 自身的 tap 处理完成后再设置选区
+                    const tapTouch = touch
+                    setTimeout(() => {
+                        if (disposed) return
+                        editor.setSelection(range)
+                        openMenuByTouch(tapTouch)
+                    })
+                },
+                cleanup: () => {
+                    clearTimeout(longPressTimer)
+                    longPressDragging = false
+                    textDragHandlers?.cleanup?.()
+                },
+            }
+        }))
+
+        // 长按后拖动时阻止 Monaco 将 touchmove 作为滚动处理
+        disposables.push(addDisposableListener(element, 'touchmove', (event) => {
+            if (!longPressDragging) return
+            event.preventDefault()
+            event.stopPropagation()
+        }, {passive: false, capture: true}))
+
+        // 长按已被用于选择文本，阻止浏览器与 Monaco 的右键菜单以及 Monaco 的 tap 移动光标
+        for (const type of ['contextmenu', GESTURE_Contextmenu, GESTURE_Tap]) {
+            disposables.push(addDisposableListener(element, type, (event) => {
+                if (!longPressTriggered) return
+                event.preventDefault()
+                event.stopPropagation()
+            }, {capture: true}))
         }
+    }
 
-        if (typeof tools === 'function') {
-            const result = tools({
+    setupTextGestures()
+
+    // 触控板模式：手指的相对移动驱动虚拟触点，光标跟随虚拟触点移动，虚拟触点靠近边缘时自动滚动。
+    // 不会改变焦点，因此可以在软键盘弹出时使用。只处理触摸事件，不受 inputMode 影响
+    // 触控板结束后在该时间之前再次按下时，继续以扩展选区的方式移动
+    let trackpadResumeUntil = 0
+    // 触控板中的按压不作为 Monaco 的点击与右键菜单
+    let trackpadTapSuppressed = false
+    // 长按 longPressArea 的计时
+    let trackpadPress: { timer: number, start: ClientPoint } | null = null
+    let trackpadAreaDisposables: IDisposable[] = []
+
+    const isTrackpadAreaPoint = (point: ClientPoint) => {
+        const longPressArea = resolveTrackpadOptions(trackpad)?.longPressArea
+        return typeof longPressArea === 'function' && longPressArea(point.clientX, point.clientY)
+    }
+
+    const getTouchCenter = (touches: TouchList): ClientPoint => {
+        let clientX = 0
+        let clientY = 0
+        for (const touch of touches) {
+            clientX += touch.clientX
+            clientY += touch.clientY
+        }
+        return {clientX: clientX / touches.length, clientY: clientY / touches.length}
+    }
+
+    const syncTrackpadCursor = () => {
+        if (!trackpadSession) return
+        const {point, anchor} = trackpadSession
+        // 虚拟触点可以进入边缘外用于自动滚动，取光标位置时限制在可见区域内
+        const bounds = getVisibleContentBounds(editor, element)
+        const target = editor.getTargetAtClientPoint(
+            Math.min(bounds.right - 1, Math.max(bounds.left, point.clientX)),
+            Math.min(bounds.bottom - 1, Math.max(bounds.top, point.clientY))
+        )
+        if (!target || !target.position) return
+        // 编辑器未获得焦点时 Monaco 不显示光标，由 selector 显示光标位置
+        if (anchor) editor.setSelection(createSelection(anchor, target.position))
+        else editor.setPosition(target.position)
+    }
+
+    const startTrackpad = (touch: ClientPoint, extend: boolean) => {
+        const options = resolveTrackpadOptions(trackpad)
+        const selection = editor.getSelection()
+        if (!options || !selection) return
+        clearTrackpadPress()
+
+        // 虚拟触点从当前光标位置开始，光标不在视图中时从触点开始
+        const visiblePosition = editor.getScrolledVisiblePosition(selection.getPosition())
+        const rect = element.getBoundingClientRect()
+        const point = visiblePosition ? {
+            clientX: rect.left + visiblePosition.left,
+            clientY: rect.top + visiblePosition.top + visiblePosition.height / 2,
+        } : touch
+
+        hideSelectorMenu()
+        showSelections()
+        element.classList.add('monaco-editor-touch-trackpad')
+        trackpadTapSuppressed = true
+        if (haptics) navigator.vibrate?.(HAPTIC_DURATION)
+
+        trackpadSession = {
+            options,
+            point,
+            lastTouch: touch,
+            lastTime: Date.now(),
+            anchor: extend ? {lineNumber: selection.selectionStartLineNumber, column: selection.selectionStartColumn} : null,
+            autoScrollDisposable: startEdgeAutoScroll(
                 editor,
-                selectorMenu,
-                defaultTools,
-                openMenu: showSelectorMenu,
-                closeMenu: hideSelectorMenu,
-            })
-            if (result === undefined) {
-                return defaultTools.values()
-            }
-            return result
+                resolveAutoScrollOptions(autoScroll),
+                () => trackpadSession?.point ?? point,
+                syncTrackpadCursor
+            ),
         }
+        syncTrackpadCursor()
+    }
 
-        return defaultTools.values()
+    // 按手指移动速度放大移动距离，快速滑动时光标移动得更远
+    const moveTrackpad = (touch: ClientPoint) => {
+        if (!trackpadSession) return
+        const {options, point, lastTouch, lastTime} = trackpadSession
+        const now = Date.now()
+        const deltaX = touch.clientX - lastTouch.clientX
+        const deltaY = touch.clientY - lastTouch.clientY
+        const speed = Math.hypot(deltaX, deltaY) / Math.max(now - lastTime, 1)
+        const ratio = options.sensitivity * (1 + options.acceleration * speed)
+
+        // 虚拟触点最多超出可见区域一个 edgeSize，此时自动滚动达到最大速度
+        const bounds = getVisibleContentBounds(editor, element)
+        const margin = resolveAutoScrollOptions(autoScroll)?.edgeSize ?? 0
+        trackpadSession.point = {
+            clientX: Math.min(bounds.right + margin, Math.max(bounds.left - margin, point.clientX + deltaX * ratio)),
+            clientY: Math.min(bounds.bottom + margin, Math.max(bounds.top - margin, point.clientY + deltaY * ratio)),
+        }
+        trackpadSession.lastTouch = touch
+        trackpadSession.lastTime = now
+        syncTrackpadCursor()
     }
 
-    const initSelectorMenu = () => {
-        selectorMenu = document.createElement('div')
-        selectorMenu.classList.add('monaco-editor-touch-selector-menu')
+    const stopTrackpad = () => {
+        clearTrackpadPress()
+        if (!trackpadSession) return
+        trackpadSession.autoScrollDisposable.dispose()
+        trackpadSession = null
+        element.classList.remove('monaco-editor-touch-trackpad')
+    }
 
-        for (const menuTool of getMenuTools(selectorMenu)) {
-            const menuItemElement = document.createElement('div')
-            menuItemElement.classList.add('menu-item')
+    const endTrackpad = () => {
+        if (!trackpadSession) return
+        stopTrackpad()
+        trackpadResumeUntil = Date.now() + TRACKPAD_RESUME_TIMEOUT
+        if (!editor.getSelection()?.isEmpty()) openMenu()
+    }
 
-            if (typeof menuTool.innerHTML === 'function') {
-                const result = menuTool.innerHTML()
-                if (typeof result === 'string') menuItemElement.innerHTML = result
-                else menuItemElement.appendChild(result)
-            } else {
-                if (typeof menuTool.innerHTML === 'string') menuItemElement.innerHTML = menuTool.innerHTML
-                else menuItemElement.appendChild(menuTool.innerHTML)
+    const clearTrackpadPress = () => {
+        if (!trackpadPress) return
+        clearTimeout(trackpadPress.timer)
+        trackpadPress = null
+    }
+
+    // 单指按下：在结束后的短时间内继续并扩展选区，或者开始长按 longPressArea 的计时
+    const startTrackpadPress = (touch: ClientPoint, inArea: boolean) => {
+        if (Date.now() < trackpadResumeUntil) {
+            startTrackpad(touch, true)
+            return
+        }
+        if (!inArea) return
+        clearTrackpadPress()
+        trackpadPress = {
+            timer: window.setTimeout(() => {
+                if (trackpadPress) startTrackpad(trackpadPress.start, false)
+            }, LONG_PRESS_TIMEOUT),
+            start: {clientX: touch.clientX, clientY: touch.clientY},
+        }
+    }
+
+    // 返回 true 表示该事件已被触控板处理
+    const moveTrackpadByTouch = (event: TouchEvent): boolean => {
+        if (trackpadSession) {
+            event.preventDefault()
+            event.stopPropagation()
+            moveTrackpad(getTouchCenter(event.touches))
+            return true
+        }
+        if (trackpadPress && getDistance(event.touches[0], trackpadPress.start) > TAP_MOVE_TOLERANCE) {
+            clearTrackpadPress()
+        }
+        return false
+    }
+
+    const endTrackpadByTouch = (event: TouchEvent) => {
+        clearTrackpadPress()
+        if (!trackpadSession) return
+        // 抬起部分手指时以剩余手指的中心继续，避免虚拟触点跳动
+        if (event.touches.length > 0) trackpadSession.lastTouch = getTouchCenter(event.touches)
+        else endTrackpad()
+    }
+
+    const setupTrackpad = () => {
+        // 双指按下时记录中心与间距，间距基本不变地移动时进入触控板模式，间距变化时视为捏合
+        let twoFingerStart: { center: ClientPoint, distance: number } | null = null
+
+        disposables.push(addDisposableListener(element, 'touchstart', (event: TouchEvent) => {
+            const options = resolveTrackpadOptions(trackpad)
+            if (!options) return
+            if (trackpadSession) {
+                trackpadSession.lastTouch = getTouchCenter(event.touches)
+                return
             }
+            if (event.touches.length === 1) {
+                trackpadTapSuppressed = false
+                const touch = event.touches[0]
+                startTrackpadPress(touch, isTrackpadAreaPoint(touch))
+                return
+            }
+            clearTrackpadPress()
+            twoFingerStart = event.touches.length === 2 && options.twoFingerDrag ? {
+                center: getTouchCenter(event.touches),
+                distance: getDistance(event.touches[0], event.touches[1]),
+            } : null
+        }, {passive: true, capture: true}))
 
-            menuItemElement.addEventListener('touchend', async () => {
-                try {
-                    await menuTool.action()
-                } catch (e) {
-                    await toolActionErrorHandler(menuTool.name, e)
+        disposables.push(addDisposableListener(element, 'touchmove', (event: TouchEvent) => {
+            if (moveTrackpadByTouch(event)) return
+            if (!twoFingerStart || event.touches.length !== 2) return
+
+            // 判断期间阻止 Monaco 的滚动
+            event.preventDefault()
+            event.stopPropagation()
+            const center = getTouchCenter(event.touches)
+            if (Math.abs(getDistance(event.touches[0], event.touches[1]) - twoFingerStart.distance) > TAP_MOVE_TOLERANCE) {
+                twoFingerStart = null
+            } else if (getDistance(center, twoFingerStart.center) > TAP_MOVE_TOLERANCE) {
+                twoFingerStart = null
+                startTrackpad(center, false)
+            }
+        }, {passive: false, capture: true}))
+
+        const handleTouchEnd = (event: TouchEvent) => {
+            if (event.touches.length < 2) twoFingerStart = null
+            endTrackpadByTouch(event)
+        }
+        disposables.push(
+            addDisposableListener(element, 'touchend', handleTouchEnd, {passive: true, capture: true}),
+            addDisposableListener(element, 'touchcancel', handleTouchEnd, {passive: true, capture: true}),
+        )
+
+        for (const type of ['contextmenu', GESTURE_Contextmenu, GESTURE_Tap]) {
+            disposables.push(addDisposableListener(element, type, (event) => {
+                if (!trackpadTapSuppressed) return
+                event.preventDefault()
+                event.stopPropagation()
+            }, {capture: true}))
+        }
+
+        disposables.push({
+            dispose: () => {
+                stopTrackpad()
+                for (const disposable of trackpadAreaDisposables) {
+                    disposable.dispose()
                 }
-            })
+                trackpadAreaDisposables = []
+            }
+        })
+        syncTrackpadArea()
+    }
 
-            selectorMenu.appendChild(menuItemElement)
+    // longPressArea 为编辑器之外的元素时，在该元素上监听触摸事件
+    const syncTrackpadArea = () => {
+        for (const disposable of trackpadAreaDisposables) {
+            disposable.dispose()
         }
+        trackpadAreaDisposables = []
 
-        selectorMenu.addEventListener('touchstart', (event) => {
-            event.preventDefault()
-        }, {passive: false})
+        const longPressArea = resolveTrackpadOptions(trackpad)?.longPressArea
+        if (!(longPressArea instanceof HTMLElement)) return
+
+        trackpadAreaDisposables.push(
+            addDisposableListener(longPressArea, 'touchstart', (event: TouchEvent) => {
+                if (trackpadSession) {
+                    trackpadSession.lastTouch = getTouchCenter(event.touches)
+                    return
+                }
+                if (event.touches.length === 1) startTrackpadPress(event.touches[0], true)
+            }, {passive: true}),
+            addDisposableListener(longPressArea, 'touchmove', moveTrackpadByTouch, {passive: false}),
+            addDisposableListener(longPressArea, 'touchend', endTrackpadByTouch, {passive: true}),
+            addDisposableListener(longPressArea, 'touchcancel', endTrackpadByTouch, {passive: true}),
+        )
+    }
+
+    setupTrackpad()
+
+    const readStoredZoom = (storageKey: string): ZoomChangeEvent | null => {
+        try {
+            const stored = JSON.parse(localStorage.getItem(storageKey) ?? 'null')
+            if (typeof stored?.fontSize !== 'number' || typeof stored?.lineHeight !== 'number') return null
+            return stored
+        } catch {
+            return null
+        }
+    }
+
+    const writeStoredZoom = (storageKey: string, zoom: ZoomChangeEvent) => {
+        try {
+            localStorage.setItem(storageKey, JSON.stringify(zoom))
+        } catch {
+            // 存储不可用时（例如隐私模式）只是不保存
+        }
+    }
+
+    const applyZoom = host.applyZoom ?? ((zoom: { fontSize: number, lineHeight?: number }) => editor.updateOptions(zoom))
+
+    // 存储内容可能被篡改或来自旧的配置，只取字号并限制在允许的范围内。
+    // 行高与双指缩放时一样按编辑器当前的行高与字号之比计算，不使用存储的行高
+    const restoreStoredZoom = (options: ResolvedPinchZoomOptions | null) => {
+        if (!options?.storageKey) return
+        const stored = readStoredZoom(options.storageKey)
+        if (!stored) return
+        const fontSize = Math.round(Math.min(options.maxFontSize, Math.max(options.minFontSize, stored.fontSize)))
+        // 小于 8 的行高会被 Monaco 作为字号的倍数，随字号自动变化
+        const rawLineHeight = editor.getRawOptions().lineHeight ?? 0
+        applyZoom({
+            fontSize,
+            ...(rawLineHeight >= 8 ? {lineHeight: Math.round(editor.getOption(OPTION_LineHeight) * fontSize / editor.getOption(OPTION_FontSize))} : {}),
+        })
+    }
+
+    // 双指缩放修改编辑器的字号，固定双指中心下的文本位置。双指手势只有触摸事件，因此不受 inputMode 影响
+    const setupPinchZoom = () => {
+        restoreStoredZoom(resolvePinchZoomOptions(pinchZoom))
+
+        let pinch: {
+            options: ResolvedPinchZoomOptions,
+            startDistance: number,
+            startFontSize: number,
+            // 未显式设置行高（0 或倍数）时由 Monaco 按字号计算，此时为 null
+            startLineHeight: number | null,
+            anchor: IPosition | null,
+        } | null = null
+
+        const getPinchCenter = (event: TouchEvent): ClientPoint => ({
+            clientX: (event.touches[0].clientX + event.touches[1].clientX) / 2,
+            clientY: (event.touches[0].clientY + event.touches[1].clientY) / 2,
+        })
+
+        const getPinchDistance = (event: TouchEvent) => {
+            return getDistance(event.touches[0], event.touches[1])
+        }
+
+        // 缩放后滚动编辑器，使 anchor 位置回到双指中心下
+        const revealAnchorAt = (anchor: IPosition, center: ClientPoint) => {
+            const rect = element.getBoundingClientRect()
+            const {contentLeft} = editor.getLayoutInfo()
+            const top = editor.getTopForPosition(anchor.lineNumber, anchor.column)
+            editor.setScrollTop(top + lineHeight / 2 - (center.clientY - rect.top), SCROLL_Immediate)
+            const offset = editor.getOffsetForColumn(anchor.lineNumber, anchor.column)
+            if (offset >= 0) editor.setScrollLeft(offset - (center.clientX - rect.left - contentLeft), SCROLL_Immediate)
+        }
+
+        disposables.push(addDisposableListener(element, 'touchstart', (event: TouchEvent) => {
+            if (event.touches.length !== 2) return
+            const options = resolvePinchZoomOptions(pinchZoom)
+            if (!options) return
+
+            const center = getPinchCenter(event)
+            const rawLineHeight = editor.getRawOptions().lineHeight ?? 0
+            pinch = {
+                options,
+                startDistance: getPinchDistance(event),
+                startFontSize: editor.getOption(OPTION_FontSize),
+                // 小于 8 的行高会被 Monaco 作为字号的倍数
+                startLineHeight: rawLineHeight >= 8 ? editor.getOption(OPTION_LineHeight) : null,
+                anchor: editor.getTargetAtClientPoint(center.clientX, center.clientY)?.position ?? null,
+            }
+            hideSelectorMenu()
+        }, {passive: true}))
 
-        selectorMenu.addEventListener('touchmove', (event) => {
+        // 阻止浏览器的页面缩放与 Monaco 的滚动
+        disposables.push(addDisposableListener(element, 'touchmove', (event: TouchEvent) => {
+            if (!pinch || event.touches.length !== 2 || trackpadSession) return
             event.preventDefault()
-        }, {passive: false})
+            event.stopPropagation()
+
+            const {options, startDistance, startFontSize, startLineHeight, anchor} = pinch
+            if (startDistance <= 0) return
+            const scale = getPinchDistance(event) / startDistance
+            const fontSize = Math.round(Math.min(options.maxFontSize, Math.max(options.minFontSize, startFontSize * scale)))
+            if (fontSize === editor.getOption(OPTION_FontSize)) return
+
+            applyZoom({
+                fontSize,
+                ...(startLineHeight === null ? {} : {lineHeight: Math.round(startLineHeight * fontSize / startFontSize)}),
+            })
+            if (anchor) revealAnchorAt(anchor, getPinchCenter(event))
+        }, {passive: false, capture: true}))
+
+        const endPinch = (event: TouchEvent) => {
+            if (!pinch || event.touches.length >= 2) return
+            const {options, startFontSize} = pinch
+            pinch = null
+
+            const fontSize = editor.getOption(OPTION_FontSize)
+            if (fontSize === startFontSize) return
+            const zoom: ZoomChangeEvent = {fontSize, lineHeight: editor.getOption(OPTION_LineHeight)}
+            if (options.storageKey) writeStoredZoom(options.storageKey, zoom)
+            zoomChangeEmitter.fire(zoom)
+        }
+        disposables.push(
+            addDisposableListener(element, 'touchend', endPinch, {passive: true}),
+            addDisposableListener(element, 'touchcancel', endPinch, {passive: true}),
+        )
+    }
+
+    setupPinchZoom()
+
+    const isKeyboardOpen = () => {
+        const view = element.ownerDocument.defaultView
+        const visualViewport = view?.visualViewport
+        if (!view || !visualViewport) return false
+        return view.innerHeight - visualViewport.height * visualViewport.scale > KEYBOARD_MIN_HEIGHT
+    }
+
+    const getAccessoryBarHeight = () => {
+        if (!accessoryBar || !accessoryBar.classList.contains('show')) return 0
+        return accessoryBar.getBoundingClientRect().height
+    }
+
+    // 模拟实体键盘的按键，交给 Monaco 的快捷键处理，因此在建议列表等控件中的行为与实体键盘一致
+    const dispatchEditorKey = (key: string, keyCode: number) => {
+        const target = getDeepActiveElement(element.ownerDocument)
+        if (!target || !element.contains(target)) return
+        for (const type of ['keydown', 'keyup']) {
+            const event = new KeyboardEvent(type, {key, code: key, bubbles: true, cancelable: true})
+            // Monaco 按 keyCode 解析按键，而 KeyboardEventInit 不能设置 keyCode
+            Object.defineProperty(event, 'keyCode', {get: () => keyCode})
+            Object.defineProperty(event, 'which', {get: () => keyCode})
+            target.dispatchEvent(event)
+        }
+    }
+
+    const createKeyText = (text: string) => {
+        const keyText = document.createElement('span')
+        keyText.classList.add('key-text')
+        keyText.textContent = text
+        return keyText
+    }
+
+    const createInsertTool = (text: string): SelectorMenuTool => ({
+        name: text,
+        group: 'symbols',
+        innerHTML: () => createKeyText(text),
+        // 与键盘输入一致，会触发自动闭合括号等行为
+        action: () => editor.trigger('keyboard', 'type', {text}),
+        visible: ({readOnly}) => !readOnly,
+    })
+
+    const getAccessoryBarTools = (accessoryBarElement: HTMLDivElement): Iterable<SelectorMenuTool> => {
+        const createKeyTool = (
+            name: AccessoryKeyName,
+            key: string,
+            keyCode: number,
+            innerHTML: SelectorMenuTool['innerHTML'],
+            visible?: SelectorMenuTool['visible']
+        ): [AccessoryKeyName, SelectorMenuTool] => [name, {
+            name,
+            label: menuMessages[name],
+            group: 'keys',
+            innerHTML,
+            action: () => dispatchEditorKey(key, keyCode),
+            visible,
+        }]
+
+        const defaultTools = new Map<AccessoryKeyName, SelectorMenuTool>([
+            createKeyTool(AccessoryKeyName.Tab, 'Tab', 9, () => createKeyText('Tab'), ({readOnly}) => !readOnly),
+            createKeyTool(AccessoryKeyName.Escape, 'Escape', 27, () => createKeyText('Esc')),
+            createKeyTool(AccessoryKeyName.ArrowLeft, 'ArrowLeft', 37, toIconHTML('<path d="M5 12l14 0" /><path d="M5 12l6 6" /><path d="M5 12l6 -6" />')),
+            createKeyTool(AccessoryKeyName.ArrowUp, 'ArrowUp', 38, toIconHTML('<path d="M12 5l0 14" /><path d="M18 11l-6 -6" /><path d="M6 11l6 -6" />')),
+            createKeyTool(AccessoryKeyName.ArrowDown, 'ArrowDown', 40, toIconHTML('<path d="M12 5l0 14" /><path d="M18 13l-6 6" /><path d="M6 13l6 6" />')),
+            createKeyTool(AccessoryKeyName.ArrowRight, 'ArrowRight', 39, toIconHTML('<path d="M5 12l14 0" /><path d="M13 18l6 -6" /><path d="M13 6l6 6" />')),
+        ])
+        const symbolTools = new Map<string, SelectorMenuTool>(
+            DEFAULT_ACCESSORY_SYMBOLS.map(symbol => [symbol, createInsertTool(symbol)])
+        )
+
+        const accessoryBarTools = typeof accessoryBarOptions === 'object' ? accessoryBarOptions.tools : undefined
+        const result = accessoryBarTools?.({
+            editor,
+            accessoryBar: accessoryBarElement,
+            defaultTools,
+            symbolTools,
+            createInsertTool,
+        })
+        return result ?? [...defaultTools.values(), ...symbolTools.values()]
+    }
+
+    // 按键栏可以横向滚动，滚动时不触发按键
+    const addAccessoryKeyListener = (itemElement: HTMLElement, activate: () => Promise<void> | void) => {
+        let press: { point: ClientPoint, scrollLeft: number } | null = null
+        itemElement.addEventListener(pressEventNames.start, (event: Event) => {
+            const point = 'touches' in event ? (event as TouchEvent).touches[0] : event as PointerEvent
+            press = {
+                point: {clientX: point.clientX, clientY: point.clientY},
+                scrollLeft: accessoryBar?.scrollLeft ?? 0,
+            }
+        }, {passive: true})
+        itemElement.addEventListener(pressEventNames.end, (event: Event) => {
+            const point = 'changedTouches' in event ? (event as TouchEvent).changedTouches[0] : event as PointerEvent
+            const startPress = press
+            press = null
+            if (!startPress || !point) return
+            if (getDistance(point, startPress.point) > TAP_MOVE_TOLERANCE) return
+            if ((accessoryBar?.scrollLeft ?? 0) !== startPress.scrollLeft) return
+            void activate()
+        })
+    }
+
+    const initAccessoryBar = () => {
+        claimMenuElements()
+        accessoryBar = document.createElement('div')
+        accessoryBar.classList.add('monaco-editor-touch-accessory-bar')
+        syncThemeClass(accessoryBar)
+        accessoryBar.setAttribute('role', 'toolbar')
+        accessoryBar.setAttribute('aria-label', menuMessages.accessoryBar)
+        accessoryBarItems = []
+
+        for (const menuTool of getAccessoryBarTools(accessoryBar)) {
+            const itemElement = document.createElement('div')
+            itemElement.classList.add('menu-item')
+            itemElement.setAttribute('role', 'button')
+            fillMenuItemElement(itemElement, menuTool, false)
 
-        selectorMenu.addEventListener('touchend', (event) => {
+            const item = {tool: menuTool, element: itemElement, enabled: true}
+            addAccessoryKeyListener(itemElement, async () => {
+                if (!item.enabled) return
+                await runMenuTool(menuTool)
+            })
+
+            accessoryBarItems.push(item)
+            accessoryBar.appendChild(itemElement)
+        }
+
+        // 与菜单不同，不阻止 touchstart 以便横向滚动，只阻止之后的鼠标事件，使编辑器保持焦点，软键盘不收起
+        accessoryBar.addEventListener('touchend', (event) => {
             event.preventDefault()
         }, {passive: false})
+        accessoryBar.addEventListener('mousedown', (event) => {
+            event.preventDefault()
+        })
+
+        selectorMenuContainer.append(accessoryBar)
+    }
+
+    // 停靠在可见区域的底部，即软键盘的上方
+    const syncAccessoryBar = () => {
+        if (!accessoryBarOptions || !editor.hasTextFocus() || !isKeyboardOpen()) {
+            accessoryBar?.classList.remove('show')
+            return
+        }
+        if (!accessoryBar) initAccessoryBar()
+        if (!accessoryBar) return
+
+        const context = getMenuToolContext()
+        let lastGroup: string | undefined = undefined
+        let first = true
+        for (const item of accessoryBarItems) {
+            const visible = item.tool.visible?.(context) ?? true
+            item.enabled = item.tool.enabled?.(context) ?? true
+            item.element.classList.toggle('hidden', !visible)
+            item.element.classList.toggle('disabled', !item.enabled)
+            item.element.setAttribute('aria-disabled', String(!item.enabled))
+            if (!visible) continue
+            item.element.classList.toggle('separated', !first && item.tool.group !== lastGroup)
+            lastGroup = item.tool.group
+            first = false
+        }
+
+        accessoryBar.classList.add('show')
+        const viewport = getViewportRect(getMenuDocument())
+        accessoryBar.style.width = `${viewport.width}px`
+        placeMenuElement(accessoryBar, viewport.left, viewport.top + viewport.height - accessoryBar.offsetHeight)
+    }
+
+    // 可见区域变小（通常是软键盘弹出）后，滚动编辑器使光标位于未被遮挡的部分
+    const revealCursorInViewport = () => {
+        const position = editor.getPosition()
+        if (!position || !editor.hasTextFocus()) return
+        const visiblePosition = editor.getScrolledVisiblePosition(position)
+        if (!visiblePosition) return
 
-        document.documentElement.append(selectorMenu)
+        const bounds = getVisibleContentBounds(editor, element)
+        const bottom = bounds.bottom - getAccessoryBarHeight()
+        // 编辑器几乎完全被遮挡时无法通过滚动编辑器显示光标
+        if (bottom - bounds.top < visiblePosition.height) return
+
+        const top = element.getBoundingClientRect().top + visiblePosition.top
+        if (top < bounds.top) {
+            editor.setScrollTop(editor.getScrollTop() - (bounds.top - top), SCROLL_Immediate)
+        } else if (top + visiblePosition.height > bottom) {
+            editor.setScrollTop(editor.getScrollTop() + (top + visiblePosition.height - bottom), SCROLL_Immediate)
+        }
+    }
+
+    // 软键盘弹出、收起或页面在 visualViewport 中滚动时，重新放置辅助栏与菜单，并保持光标可见
+    const setupVisualViewport = () => {
+        const visualViewport = element.ownerDocument.defaultView?.visualViewport
+        if (!visualViewport) return
+
+        let frame = 0
+        let lastHeight = visualViewport.height
+        const handleViewportChange = () => {
+            cancelAnimationFrame(frame)
+            frame = requestAnimationFrame(() => {
+                if (disposed) return
+                const shrunk = visualViewport.height < lastHeight
+                lastHeight = visualViewport.height
+
+                syncAccessoryBar()
+                if (shrunk) revealCursorInViewport()
+                if (selectorMenuShow && menuAnchorPair && selectorPairs.includes(menuAnchorPair)) {
+                    placeSelectorMenuAtPair(menuAnchorPair)
+                }
+                if (selectorSubmenuStack.length > 0) placeSelectorSubmenu()
+            })
+        }
+
+        disposables.push(
+            addDisposableListener(visualViewport, 'resize', handleViewportChange),
+            addDisposableListener(visualViewport, 'scroll', handleViewportChange),
+            {dispose: () => cancelAnimationFrame(frame)},
+            editor.onDidFocusEditorText(syncAccessoryBar),
+            editor.onDidBlurEditorText(syncAccessoryBar),
+        )
     }
-    initSelectorMenu()
 
-    element.addEventListener('touchstart', () => {
+    setupVisualViewport()
+
+    disposables.push(addDisposableListener(element, pressEventNames.start, (event) => {
+        if (!isPressEvent(event)) return
         showSelections()
-    }, {passive: true})
+    }, {passive: true}))
 
-    editor.onDidBlurEditorWidget(() => {
+    disposables.push(editor.onDidBlurEditorWidget(() => {
+        // 焦点通过键盘移入菜单时保持菜单显示
+        if (isFocusInMenu()) return
         hideSelections()
         hideSelectorMenu()
-    })
+    }))
+
+    // Alt+F10 将焦点移入菜单，Escape 关闭菜单
+    disposables.push(editor.onKeyDown((event) => {
+        if (!selectorMenuShow) return
+        const {key, altKey} = event.browserEvent
+        if (key === 'Escape') {
+            hideSelectorMenu()
+        } else if (key === 'F10' && altKey) {
+            event.preventDefault()
+            event.stopPropagation()
+            focusSelectorMenu()
+        }
+    }))
 
-    element.addEventListener('click', (event) => {
+    disposables.push(addDisposableListener(element, 'click', (event) => {
         event.stopPropagation()
-    })
-}
\ No newline at end of file
+    }))
+
+    const openMenu = () => {
+        if (disposed) return
+        const currentSelections = editor.getSelections()
+        if (!currentSelections) return
+        showSelections()
+        syncSelectionTransform(currentSelections)
+        const primarySelectorPair = selectorPairs[0]
+        if (!primarySelectorPair) return
+        const rect = primarySelectorPair.activeSelector.getBoundingClientRect()
+        showSelectionMenuByTouch({clientX: rect.left, clientY: rect.top})
+    }
+
+    const updateOptions = (newOptions: EditorTouchSelectionOptions) => {
+        if (disposed) return
+
+        if ('tools' in newOptions) {
+            tools = newOptions.tools
+        }
+        if ('selectionSyncTimeout' in newOptions) {
+            selectionSyncTimeout = newOptions.selectionSyncTimeout ?? DEFAULT_SELECTION_SYNC_TIMEOUT
+        }
+        if ('toolActionErrorHandler' in newOptions) {
+            toolActionErrorHandler = newOptions.toolActionErrorHandler ?? defaultToolActionErrorHandler
+        }
+        if ('magnifier' in newOptions) {
+            magnifierOptions = newOptions.magnifier ?? false
+        }
+        if ('autoScroll' in newOptions) {
+            autoScroll = newOptions.autoScroll ?? true
+        }
+        if ('pinchZoom' in newOptions) {
+            const previousStorageKey = resolvePinchZoomOptions(pinchZoom)?.storageKey
+            pinchZoom = newOptions.pinchZoom ?? false
+            // 开启缩放或更换存储键时恢复已保存的缩放
+            const pinchZoomOptions = resolvePinchZoomOptions(pinchZoom)
+            if (pinchZoomOptions?.storageKey !== previousStorageKey) restoreStoredZoom(pinchZoomOptions)
+        }
+        if ('textDrag' in newOptions) {
+            textDrag = newOptions.textDrag ?? false
+        }
+        if ('trackpad' in newOptions) {
+            trackpad = newOptions.trackpad ?? false
+            stopTrackpad()
+            syncTrackpadArea()
+        }
+        if ('handleTouchSize' in newOptions) {
+            handleTouchSize = newOptions.handleTouchSize
+            syncHandleTouchSize()
+        }
+        if ('granularity' in newOptions) {
+            granularity = newOptions.granularity ?? 'character'
+        }
+        if ('haptics' in newOptions) {
+            haptics = newOptions.haptics ?? false
+        }
+        if ('clipboard' in newOptions) {
+            clipboard = newOptions.clipboard ?? defaultClipboardProvider
+        }
+        if ('selectionClassifiers' in newOptions) {
+            selectionClassifiers = newOptions.selectionClassifiers ?? true
+        }
+        if ('locale' in newOptions) {
+            locale = newOptions.locale
+        }
+        if ('messages' in newOptions) {
+            messages = newOptions.messages
+        }
+        if ('toolLabels' in newOptions) {
+            toolLabels = newOptions.toolLabels ?? 'none'
+        }
+        if ('themeColors' in newOptions) {
+            themeColors = newOptions.themeColors ?? false
+            syncThemeClass(selections)
+            syncThemeClass(selectorSubmenu)
+            syncThemeClass(magnifier)
+            for (const indicator of Object.values(selectionIndicators ?? {})) {
+                syncThemeClass(indicator)
+            }
+        }
+        if ('menuContainer' in newOptions) {
+            menuContainer = newOptions.menuContainer
+            selectorMenuContainer = resolveMenuContainer()
+            // 子菜单与播报区域在下次使用时于新的容器中重新创建
+            hideSelectorMenu()
+            selectorSubmenu?.remove()
+            selectorSubmenu = null
+            liveRegion?.remove()
+            liveRegion = null
+        }
+        if ('accessoryBar' in newOptions) {
+            accessoryBarOptions = newOptions.accessoryBar ?? false
+        }
+        if (newOptions.injectStyles) {
+            injectStyleSheet(element)
+            injectStyleSheet(selectorMenuContainer)
+        }
+        menuMessages = resolveSelectorMenuMessages(locale, messages)
+
+        // 重建菜单，保持原有的显示状态与位置。未显示的菜单在下次打开时创建
+        // selectorMenuShow 保持不变，重建不会触发 onMenuOpen 与 onMenuClose
+        const menuTransform = selectorMenu?.style.transform ?? ''
+        hideSelectorSubmenu()
+        removeSelectorMenu()
+        if (selectorMenuShow) initSelectorMenu()
+        if (selectorMenu && selectorMenuShow) {
+            selectorMenu.style.transform = menuTransform
+            selectorMenu.classList.add('show')
+            showSelectorMenu()
+        }
+
+        // 辅助栏同样按新的选项重建
+        accessoryBar?.remove()
+        accessoryBar = null
+        accessoryBarItems = []
+        syncAccessoryBar()
+    }
+
+    return {
+        dispose,
+        openMenu,
+        closeMenu: hideSelectorMenu,
+        showHandles: showSelections,
+        hideHandles: hideSelections,
+        updateOptions,
+        onHandleDragStart: handleDragStartEmitter.event,
+        onHandleDragMove: handleDragMoveEmitter.event,
+        onHandleDragEnd: handleDragEndEmitter.event,
+        onMenuOpen: menuOpenEmitter.event,
+        onMenuClose: menuCloseEmitter.event,
+        onBeforeToolAction: beforeToolActionEmitter.event,
+        onToolActionComplete: toolActionCompleteEmitter.event,
+        onZoomChange: zoomChangeEmitter.event,
+    }
+}
+
+export const editorTouchSelectionHelp = (
+    editor: ICodeEditor,
+    options?: EditorTouchSelectionOptions
+): EditorTouchSelectionController => createEditorTouchSelection(editor, options, {})
+
+export const diffEditorTouchSelectionHelp = (
+    diffEditor: IDiffEditor,
+    options?: EditorTouchSelectionOptions
+): DiffEditorTouchSelectionController => {
+    if (!diffEditor) {
+        throw new Error("diffEditor not existed")
+    }
+
+    let currentOptions: EditorTouchSelectionOptions = {...options}
+    let disposed = false
+
+    const originalEditor = diffEditor.getOriginalEditor()
+    const modifiedEditor = diffEditor.getModifiedEditor()
+
+    const disposables: IDisposable[] = []
+    let originalDisposables: IDisposable[] = []
+
+    // 两侧共用一组菜单元素，缩放同时作用于两侧，保持两侧的行对齐
+    const host: TouchSelectionHost = {
+        menuSlot: {release: null},
+        applyZoom: (zoom) => diffEditor.updateOptions(zoom),
+    }
+
+    const handleDragStartEmitter = createEventEmitter<HandleDragEvent>()
+    const handleDragMoveEmitter = createEventEmitter<HandleDragEvent>()
+    const handleDragEndEmitter = createEventEmitter<HandleDragEvent>()
+    const menuOpenEmitter = createEventEmitter<void>()
+    const menuCloseEmitter = createEventEmitter<void>()
+    const beforeToolActionEmitter = createEventEmitter<BeforeToolActionEvent>()
+    const toolActionCompleteEmitter = createEventEmitter<ToolActionCompleteEvent>()
+    const zoomChangeEmitter = createEventEmitter<ZoomChangeEvent>()
+    disposables.push(
+        handleDragStartEmitter,
+        handleDragMoveEmitter,
+        handleDragEndEmitter,
+        menuOpenEmitter,
+        menuCloseEmitter,
+        beforeToolActionEmitter,
+        toolActionCompleteEmitter,
+        zoomChangeEmitter,
+    )
+
+    const forwardEvents = (side: EditorTouchSelectionController): IDisposable[] => [
+        side.onHandleDragStart((e) => handleDragStartEmitter.fire(e)),
+        side.onHandleDragMove((e) => handleDragMoveEmitter.fire(e)),
+        side.onHandleDragEnd((e) => handleDragEndEmitter.fire(e)),
+        side.onMenuOpen(() => menuOpenEmitter.fire()),
+        side.onMenuClose(() => menuCloseEmitter.fire()),
+        side.onBeforeToolAction((e) => beforeToolActionEmitter.fire(e)),
+        side.onToolActionComplete((e) => toolActionCompleteEmitter.fire(e)),
+        side.onZoomChange((e) => zoomChangeEmitter.fire(e)),
+    ]
+
+    const modified = createEditorTouchSelection(modifiedEditor, currentOptions, host)
+    disposables.push(...forwardEvents(modified))
+
+    const controller: DiffEditorTouchSelectionController = {
+        original: null,
+        modified,
+        dispose: () => {
+            if (disposed) return
+            disposed = true
+            detachOriginal()
+            for (const disposable of disposables) {
+                disposable.dispose()
+            }
+            disposables.length = 0
+            modified.dispose()
+        },
+        openMenu: () => {
+            if (controller.original && originalEditor.hasTextFocus()) controller.original.openMenu()
+            else modified.openMenu()
+        },
+        closeMenu: () => {
+            controller.original?.closeMenu()
+            modified.closeMenu()
+        },
+        updateOptions: (newOptions: EditorTouchSelectionOptions) => {
+            if (disposed) return
+            currentOptions = {...currentOptions, ...newOptions}
+            controller.original?.updateOptions(newOptions)
+            modified.updateOptions(newOptions)
+        },
+        onHandleDragStart: handleDragStartEmitter.event,
+        onHandleDragMove: handleDragMoveEmitter.event,
+        onHandleDragEnd: handleDragEndEmitter.event,
+        onMenuOpen: menuOpenEmitter.event,
+        onMenuClose: menuCloseEmitter.event,
+        onBeforeToolAction: beforeToolActionEmitter.event,
+        onToolActionComplete: toolActionCompleteEmitter.event,
+        onZoomChange: zoomChangeEmitter.event,
+    }
+
+    // 一侧打开菜单时，另一侧的菜单元素已被释放，这里再收起另一侧的 selector
+    const attachOriginal = () => {
+        if (controller.original) return
+        const original = createEditorTouchSelection(originalEditor, currentOptions, host)
+        controller.original = original
+        originalDisposables = [
+            original.onMenuOpen(() => {
+                modified.closeMenu()
+                modified.hideHandles()
+            }),
+            modified.onMenuOpen(() => {
+                original.closeMenu()
+                original.hideHandles()
+            }),
+            ...forwardEvents(original),
+        ]
+    }
+
+    const detachOriginal = () => {
+        for (const disposable of originalDisposables) {
+            disposable.dispose()
+        }
+        originalDisposables = []
+        controller.original?.dispose()
+        controller.original = null
+    }
+
+    // inline 模式下 original 的宽度只够显示行号，删除的行以 view zone 的形式显示在 modified 中
+    const syncRenderMode = () => {
+        const {width, contentLeft} = originalEditor.getLayoutInfo()
+        if (width > contentLeft) attachOriginal()
+        else detachOriginal()
+    }
+    syncRenderMode()
+    disposables.push(originalEditor.onDidLayoutChange(() => {
+        if (!disposed) syncRenderMode()
+    }))
+    disposables.push(modifiedEditor.onDidDispose(controller.dispose))
+
+    return controller
+}